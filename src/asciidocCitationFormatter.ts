@@ -0,0 +1,103 @@
+/**
+ * AsciiDoc Citation Formatter - asciidoctor-bibtex `cite:[key1, key2(42)]`
+ * and `citenp:[key]` citations
+ */
+
+import { CitationEdit, CitationFormatter, CitationFormOption, formatPostnote } from './citationFormatter';
+import { CitationForm, PickedCitation } from './types';
+
+/**
+ * Macro of each form. asciidoctor-bibtex can't leave out the author, so
+ * citations without it get the parenthetical `cite:`.
+ */
+const MACROS: { [form in CitationForm]: string } = {
+    'parenthetical': 'cite',
+    'in-text': 'citenp',
+    'suppress-author': 'cite'
+};
+
+/**
+ * Open `cite:[` or `citenp:[` macro at the end of the text before the trigger
+ */
+const OPEN_MACRO = /\b(citenp|cite):\[([^\]\[\n]*)$/;
+
+/**
+ * Rest of the macro after the trigger, up to its closing bracket
+ */
+const MACRO_REST = /^([^\]\[\n]*)(\])?/;
+
+export class AsciidocCitationFormatter implements CitationFormatter {
+    readonly languageIds = ['asciidoc'];
+    readonly extensions = ['.adoc', '.asciidoc', '.asc'];
+    readonly trigger = '@zoteroCite';
+    readonly triggerPattern = /(?<![\w@])@zoteroCite\b(\*)?/;
+    readonly forms: ReadonlyArray<CitationFormOption> = [
+        { form: 'parenthetical', label: 'cite:[key]', description: 'In parentheses' },
+        { form: 'in-text', label: 'citenp:[key]', description: 'In the running text' }
+    ];
+
+    /**
+     * Inside a macro (`cite:[a, @zoteroCite]`) the new keys are added to it
+     * where the trigger was; otherwise a new macro replaces the trigger.
+     * asciidoctor-bibtex has no prefixes or suffixes, only locators.
+     */
+    cite(text: string, start: number, end: number, citations: PickedCitation[], form: CitationForm): CitationEdit {
+        const lineStart = text.lastIndexOf('\n', start - 1) + 1;
+        const open = text.slice(lineStart, start).match(OPEN_MACRO);
+
+        if (!open || open.index === undefined) {
+            const items = this.formatItems(citations, new Set());
+            const newText = `${MACROS[form]}:[${items.join(', ')}]`;
+            return { start, end, newText, cursor: start + newText.length };
+        }
+
+        const rest = text.slice(end).match(MACRO_REST);
+        const before = AsciidocCitationFormatter.splitItems(open[2]);
+        const after = AsciidocCitationFormatter.splitItems(rest?.[1] ?? '');
+        const existingKeys = new Set([...before, ...after].map(item => AsciidocCitationFormatter.getKey(item)));
+
+        const macroStart = lineStart + open.index;
+        const macroEnd = end + (rest?.[0].length ?? 0);
+        const newText = `${open[1]}:[${[...before, ...this.formatItems(citations, existingKeys), ...after].join(', ')}]`;
+        return { start: macroStart, end: macroEnd, newText, cursor: macroStart + newText.length };
+    }
+
+    /**
+     * BibTeX file of the `:bibtex-file:` document attribute
+     */
+    findBibliographies(text: string): string[] {
+        const attribute = text.match(/^:bibtex-file:[ \t]*(.+?)[ \t]*$/m);
+        return attribute ? [attribute[1]] : [];
+    }
+
+    /**
+     * `key` or `key(42)` for each citation whose key isn't in `existingKeys`
+     */
+    private formatItems(citations: PickedCitation[], existingKeys: Set<string>): string[] {
+        const keys = new Set(existingKeys);
+        const items: string[] = [];
+
+        for (const citation of citations) {
+            if (keys.has(citation.key)) {
+                continue;
+            }
+            keys.add(citation.key);
+
+            // Page numbers are written bare; asciidoctor-bibtex adds the label
+            const locator = !citation.label || citation.label === 'page'
+                ? citation.locator
+                : formatPostnote({ key: citation.key, locator: citation.locator, label: citation.label });
+            items.push(locator ? `${citation.key}(${locator})` : citation.key);
+        }
+
+        return items;
+    }
+
+    private static splitItems(text: string): string[] {
+        return text.split(',').map(item => item.trim()).filter(item => item);
+    }
+
+    private static getKey(item: string): string {
+        return item.replace(/\(.*\)$/, '').trim();
+    }
+}
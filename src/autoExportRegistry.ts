@@ -0,0 +1,66 @@
+/**
+ * Auto-Export Registry - Recognize .bib files that Better BibTeX keeps up to
+ * date as auto-exports, so entries are added in Zotero instead of the file
+ */
+
+import * as vscode from 'vscode';
+import { ZoteroAPIClient } from './zoteroApiClient';
+import { AutoExport } from './types';
+
+/**
+ * How long the auto-export list is reused before asking Zotero again
+ */
+const CACHE_DURATION = 30000;
+
+export class AutoExportRegistry {
+    private cached: { exports: AutoExport[]; time: number } | null = null;
+
+    constructor(private apiClient: ZoteroAPIClient) {}
+
+    /**
+     * Forget the auto-export list, e.g. after the Zotero URL changed
+     */
+    clearCache(): void {
+        this.cached = null;
+    }
+
+    /**
+     * The auto-export writing to a file, if any. Throws when Zotero can't be
+     * asked (not running, or a Better BibTeX without the auto-export list),
+     * since the file may be an auto-export all the same.
+     */
+    async find(fileUri: vscode.Uri): Promise<AutoExport | undefined> {
+        if (fileUri.scheme !== 'file') {
+            return undefined;
+        }
+        return (await this.getAutoExports()).find(autoExport => AutoExportRegistry.isSamePath(autoExport.path, fileUri.fsPath));
+    }
+
+    /**
+     * Compare paths as the file system would, ignoring case on Windows and macOS
+     */
+    static isSamePath(a: string, b: string, platform: string = process.platform): boolean {
+        const normalize = (p: string) => {
+            const slashes = p.replace(/\\/g, '/').replace(/\/+$/, '');
+            return platform === 'linux' ? slashes : slashes.toLowerCase();
+        };
+        return normalize(a) === normalize(b);
+    }
+
+    private async getAutoExports(): Promise<AutoExport[]> {
+        if (this.cached && Date.now() - this.cached.time < CACHE_DURATION) {
+            return this.cached.exports;
+        }
+
+        // A failed lookup isn't cached, so the next one asks Zotero again
+        let exports: AutoExport[];
+        try {
+            exports = await this.apiClient.getAutoExports();
+        } catch (error) {
+            throw new Error(`Could not list Better BibTeX auto-exports: ${error instanceof Error ? error.message : error}`);
+        }
+
+        this.cached = { exports, time: Date.now() };
+        return exports;
+    }
+}
@@ -0,0 +1,133 @@
+/**
+ * BibTeX Entry Formatter - Readable authors, year, title and venue for
+ * hovers and completion items
+ */
+
+import { BibEntry, BibTeXParser } from './bibtexParser';
+
+/**
+ * Fields naming where an entry was published, in order of preference
+ */
+const VENUE_FIELDS = ['journaltitle', 'journal', 'booktitle', 'series', 'publisher', 'institution', 'school', 'howpublished'];
+
+export class BibEntryFormatter {
+    /**
+     * Family names of the authors (or editors): "Smith", "Smith and Jones",
+     * "Smith, Jones and Lee" or "Smith et al."
+     */
+    static getAuthors(entry: BibEntry): string | undefined {
+        const names = BibTeXParser.getField(entry, 'author') ?? BibTeXParser.getField(entry, 'editor');
+        if (!names) {
+            return undefined;
+        }
+
+        return this.joinFamilyNames(this.splitNames(names).map(name => this.getFamilyName(name)));
+    }
+
+    /**
+     * "Smith", "Smith and Jones", "Smith, Jones and Lee" or "Smith et al."
+     */
+    static joinFamilyNames(families: string[]): string | undefined {
+        // "and others" is BibTeX's way of writing et al.
+        if (families.length > 3 || (families.length > 1 && families[families.length - 1] === 'others')) {
+            return `${families[0]} et al.`;
+        }
+        if (families.length > 1) {
+            return `${families.slice(0, -1).join(', ')} and ${families[families.length - 1]}`;
+        }
+        return families[0];
+    }
+
+    /**
+     * Year from `year`, or from a biblatex `date`
+     */
+    static getYear(entry: BibEntry): string | undefined {
+        const year = BibTeXParser.getField(entry, 'year') ?? BibTeXParser.getField(entry, 'date')?.slice(0, 4);
+        return year ? this.toPlainText(year) : undefined;
+    }
+
+    static getTitle(entry: BibEntry): string | undefined {
+        const title = BibTeXParser.getField(entry, 'title');
+        return title ? this.toPlainText(title) : undefined;
+    }
+
+    /**
+     * Journal, proceedings, publisher, ... whichever comes first
+     */
+    static getVenue(entry: BibEntry): string | undefined {
+        for (const field of VENUE_FIELDS) {
+            const value = BibTeXParser.getField(entry, field);
+            if (value) {
+                return this.toPlainText(value);
+            }
+        }
+        return undefined;
+    }
+
+    /**
+     * One line such as "Smith and Jones (2020)"
+     */
+    static getShortReference(entry: BibEntry): string {
+        const authors = this.getAuthors(entry) ?? 'Unknown author';
+        const year = this.getYear(entry);
+        return year ? `${authors} (${year})` : authors;
+    }
+
+    /**
+     * Strip braces and common LaTeX markup from a field value
+     */
+    static toPlainText(value: string): string {
+        return value
+            .replace(/\\(?:textit|textbf|emph|textsc|texttt|mathrm)\s*\{([^{}]*)\}/g, '$1')
+            .replace(/\\([&%$#_{}])/g, '$1')
+            .replace(/---/g, '—')
+            .replace(/--/g, '–')
+            .replace(/~/g, ' ')
+            .replace(/[{}]/g, '')
+            .replace(/\s+/g, ' ')
+            .trim();
+    }
+
+    /**
+     * Split "A and B and {C and D}" at top-level " and "
+     */
+    private static splitNames(names: string): string[] {
+        const result: string[] = [];
+        let depth = 0;
+        let start = 0;
+
+        for (let i = 0; i < names.length; i++) {
+            const c = names[i];
+            if (c === '{') {
+                depth++;
+            } else if (c === '}') {
+                depth--;
+            } else if (depth === 0 && /\s/.test(c)) {
+                const separator = names.slice(i).match(/^\s+and\s+/i);
+                if (separator) {
+                    result.push(names.slice(start, i));
+                    i += separator[0].length - 1;
+                    start = i + 1;
+                }
+            }
+        }
+        result.push(names.slice(start));
+
+        return result.map(name => name.trim()).filter(name => name !== '');
+    }
+
+    /**
+     * "Smith, John" and "John Smith" give "Smith"; "{World Health Organization}" stays whole
+     */
+    private static getFamilyName(name: string): string {
+        if (name.startsWith('{') && name.endsWith('}')) {
+            return this.toPlainText(name);
+        }
+        const comma = name.indexOf(',');
+        if (comma !== -1) {
+            return this.toPlainText(name.slice(0, comma));
+        }
+        const parts = name.split(/\s+/);
+        return this.toPlainText(parts[parts.length - 1]);
+    }
+}
@@ -0,0 +1,223 @@
+/**
+ * Bibliography Index - Look up citation keys in the .bib files of a
+ * document's project, and find where keys are cited in the workspace
+ */
+
+import * as vscode from 'vscode';
+import { BibTeXFileManager, LocatedBibEntry } from './bibtexFileManager';
+import { BibliographyResolver } from './bibliographyResolver';
+import { BibTeXParser } from './bibtexParser';
+import { CiteCommand, CiteCommandParser } from './citeCommandParser';
+import { LineIndex } from './lineIndex';
+
+/**
+ * Upper bound on .tex files scanned for citations
+ */
+const MAX_TEX_FILES = 1000;
+
+/**
+ * Fields through which one entry pulls in others (biblatex)
+ */
+const DEPENDENCY_FIELDS = ['crossref', 'xdata', 'related'];
+
+/**
+ * Citation commands of one .tex file
+ */
+export interface CitingFile {
+    uri: vscode.Uri;
+    commands: CiteCommand[];
+    lines: LineIndex;
+}
+
+/**
+ * Keys cited by the LaTeX projects of a .bib file
+ */
+interface CitedKeys {
+    keys: Set<string>;
+    /** `\nocite{*}` is among them */
+    citesAll: boolean;
+}
+
+export class BibliographyIndex {
+    /** Cited keys by .bib file URI, until a .tex file changes */
+    private citedKeys = new Map<string, Promise<CitedKeys>>();
+
+    constructor(
+        private bibFileManager: BibTeXFileManager,
+        private bibliographyResolver: BibliographyResolver
+    ) {}
+
+    /**
+     * Entries of all .bib files of the document's project, keyed by citation
+     * key; the first definition wins, as in BibTeX
+     */
+    async getEntries(document: vscode.TextDocument): Promise<Map<string, LocatedBibEntry>> {
+        const entries = new Map<string, LocatedBibEntry>();
+
+        for (const uri of await this.bibFileManager.getProjectBibFiles(document)) {
+            for (const located of await this.bibFileManager.parseBibEntries(uri)) {
+                if (!entries.has(located.entry.key)) {
+                    entries.set(located.entry.key, located);
+                }
+            }
+        }
+
+        return entries;
+    }
+
+    /**
+     * Find the entry for a citation key cited in the document
+     */
+    async findEntry(document: vscode.TextDocument, key: string): Promise<LocatedBibEntry | undefined> {
+        return (await this.getEntries(document)).get(key);
+    }
+
+    /**
+     * Citation commands of every .tex file in the workspace folder of `scope`
+     * (the whole workspace without one)
+     */
+    async getCitingFiles(scope?: vscode.Uri): Promise<CitingFile[]> {
+        const workspaceFolder = scope ? vscode.workspace.getWorkspaceFolder(scope) : undefined;
+        const include = workspaceFolder ? new vscode.RelativePattern(workspaceFolder, '**/*.tex') : '**/*.tex';
+        const uris = await vscode.workspace.findFiles(include, '**/node_modules/**', MAX_TEX_FILES);
+        const files: CitingFile[] = [];
+
+        for (const uri of uris) {
+            const text = await this.bibliographyResolver.readText(uri);
+            if (!text) {
+                continue;
+            }
+
+            const commands = CiteCommandParser.findAll(text);
+            if (commands.length > 0) {
+                files.push({ uri, commands, lines: new LineIndex(text) });
+            }
+        }
+
+        return files;
+    }
+
+    /**
+     * Locations in the workspace where a key is cited
+     */
+    async findCitations(key: string, scope?: vscode.Uri): Promise<vscode.Location[]> {
+        const locations: vscode.Location[] = [];
+
+        for (const file of await this.getCitingFiles(scope)) {
+            for (const command of file.commands) {
+                for (const group of command.keyGroups) {
+                    for (const citeKey of group.keys) {
+                        if (citeKey.key === key) {
+                            locations.push(new vscode.Location(file.uri, file.lines.rangeAt(citeKey.start, citeKey.end)));
+                        }
+                    }
+                }
+            }
+        }
+
+        return locations;
+    }
+
+    /**
+     * Entries of a .bib file that none of the LaTeX projects declaring it
+     * cites; without such a project, the .tex files of its workspace folder
+     * decide. Entries referenced through crossref/xdata/related of cited entries count
+     * as cited, and `\nocite{*}` cites everything.
+     */
+    async findUncitedEntries(bibFileUri: vscode.Uri): Promise<{ uncited: LocatedBibEntry[]; citesAll: boolean }> {
+        const entries = await this.bibFileManager.parseBibEntries(bibFileUri);
+        const { keys, citesAll } = await this.getCitedKeys(bibFileUri);
+        if (citesAll) {
+            return { uncited: [], citesAll: true };
+        }
+        const cited = new Set(keys);
+
+        const byKey = new Map(entries.map(located => [located.entry.key, located]));
+        const pending = [...cited];
+        while (pending.length > 0) {
+            const located = byKey.get(pending.pop()!);
+            if (!located) {
+                continue;
+            }
+            for (const field of DEPENDENCY_FIELDS) {
+                for (const key of (BibTeXParser.getField(located.entry, field) ?? '').split(',').map(k => k.trim())) {
+                    if (key && !cited.has(key)) {
+                        cited.add(key);
+                        pending.push(key);
+                    }
+                }
+            }
+        }
+
+        return { uncited: entries.filter(located => !cited.has(located.entry.key)), citesAll: false };
+    }
+
+    /**
+     * Forget all cited keys after a .tex file changed, so they are scanned
+     * again when next needed: the change may move a file into or out of a
+     * project as well as change its citations
+     */
+    invalidateCitations(): void {
+        this.citedKeys.clear();
+    }
+
+    /**
+     * Keys cited for a .bib file, scanned once until `invalidateCitations`
+     */
+    private getCitedKeys(bibFileUri: vscode.Uri): Promise<CitedKeys> {
+        const id = bibFileUri.toString();
+        let cited = this.citedKeys.get(id);
+        if (!cited) {
+            cited = this.scanCitedKeys(bibFileUri);
+            this.citedKeys.set(id, cited);
+            // A failed scan is tried again next time
+            const scan = cited;
+            scan.catch(() => {
+                if (this.citedKeys.get(id) === scan) {
+                    this.citedKeys.delete(id);
+                }
+            });
+        }
+        return cited;
+    }
+
+    private async scanCitedKeys(bibFileUri: vscode.Uri): Promise<CitedKeys> {
+        const keys = new Set<string>();
+        for (const commands of await this.getProjectCommands(bibFileUri)) {
+            for (const command of commands) {
+                for (const group of command.keyGroups) {
+                    for (const citeKey of group.keys) {
+                        if (citeKey.key === '*' && command.name === 'nocite') {
+                            return { keys, citesAll: true };
+                        }
+                        keys.add(citeKey.key);
+                    }
+                }
+            }
+        }
+        return { keys, citesAll: false };
+    }
+
+    /**
+     * Citation commands of each .tex file in the projects whose roots declare
+     * the .bib file, or of the whole workspace folder when none does
+     */
+    private async getProjectCommands(bibFileUri: vscode.Uri): Promise<CiteCommand[][]> {
+        const roots = await this.bibliographyResolver.findDeclaringRoots(bibFileUri);
+        if (roots.length === 0) {
+            return (await this.getCitingFiles(bibFileUri)).map(file => file.commands);
+        }
+
+        const seen = new Set<string>();
+        const commands: CiteCommand[][] = [];
+        for (const root of roots) {
+            for (const file of await this.bibliographyResolver.getProjectFiles(root)) {
+                if (!seen.has(file.uri.toString())) {
+                    seen.add(file.uri.toString());
+                    commands.push(CiteCommandParser.findAll(file.text));
+                }
+            }
+        }
+        return commands;
+    }
+}
@@ -0,0 +1,350 @@
+/**
+ * Bibliography Resolver - Find a document's TeX root and the .bib files it
+ * declares with \bibliography or \addbibresource (or, in other languages,
+ * with their own declarations such as the YAML front matter). The cells of
+ * a notebook share the notebook as their root.
+ */
+
+import * as vscode from 'vscode';
+import * as path from 'path';
+import { getCitationFormatter } from './citationFormatter';
+
+/**
+ * How far to follow \input/\include parents before giving up
+ */
+const MAX_ROOT_DEPTH = 10;
+
+/**
+ * Upper bound on .tex files scanned when looking for parents
+ */
+const MAX_TEX_FILES = 1000;
+
+/**
+ * URI scheme of the documents of notebook cells
+ */
+const NOTEBOOK_CELL_SCHEME = 'vscode-notebook-cell';
+
+export class BibliographyResolver {
+    private rootCache = new Map<string, vscode.Uri>();
+
+    /**
+     * Forget resolved roots, e.g. after a .tex file was saved, created or deleted
+     */
+    clearCache(): void {
+        this.rootCache.clear();
+    }
+
+    /**
+     * Resolve the TeX root of a document: a `% !TEX root` magic comment wins,
+     * then a document with \documentclass is its own root, otherwise the
+     * workspace is searched for files that \input or \include it
+     */
+    async resolveRoot(document: vscode.TextDocument): Promise<vscode.Uri> {
+        // Documents of other languages declare their own bibliographies, cells through their notebook
+        if (getCitationFormatter(document)) {
+            return BibliographyResolver.getResourceUri(document);
+        }
+
+        const cached = this.rootCache.get(document.uri.toString());
+        if (cached) {
+            return cached;
+        }
+
+        const root = await this.findRoot(document.uri, document.getText(), new Set());
+        this.rootCache.set(document.uri.toString(), root);
+        return root;
+    }
+
+    /**
+     * Root URI and text; falls back to the document itself if the root can't be read
+     */
+    async getRoot(document: vscode.TextDocument): Promise<{ uri: vscode.Uri; text: string }> {
+        const notebook = BibliographyResolver.findNotebook(document);
+        if (notebook) {
+            return { uri: notebook.uri, text: BibliographyResolver.getNotebookText(notebook) };
+        }
+
+        const rootUri = await this.resolveRoot(document);
+        if (rootUri.toString() !== document.uri.toString()) {
+            const rootText = await this.readText(rootUri);
+            if (rootText !== null) {
+                return { uri: rootUri, text: rootText };
+            }
+        }
+        return { uri: document.uri, text: document.getText() };
+    }
+
+    /**
+     * Absolute .bib files declared in the document's root, in declaration order.
+     * Other languages are their own root and declare files relative to it;
+     * notebooks in their metadata or a front matter cell.
+     */
+    async getBibliographyFiles(document: vscode.TextDocument): Promise<vscode.Uri[]> {
+        const { uri: rootUri, text: rootText } = await this.getRoot(document);
+
+        if (rootUri.scheme !== 'file') {
+            return [];
+        }
+
+        const rootDir = path.dirname(rootUri.fsPath);
+        const formatter = getCitationFormatter(document);
+        const declared = formatter
+            ? formatter.findBibliographies(rootText)
+            : BibliographyResolver.findBibliographyDeclarations(rootText);
+
+        const notebook = BibliographyResolver.findNotebook(document);
+        if (notebook) {
+            const fromMetadata = BibliographyResolver.findNotebookBibliographies(notebook.metadata);
+            declared.unshift(...fromMetadata.filter(file => !declared.includes(file)));
+        }
+
+        return declared.map(file => vscode.Uri.file(path.resolve(rootDir, file)));
+    }
+
+    /**
+     * The notebook of a cell, otherwise the document itself: what settings
+     * and the workspace folder are looked up for
+     */
+    static getResourceUri(document: vscode.TextDocument): vscode.Uri {
+        return BibliographyResolver.findNotebook(document)?.uri ?? document.uri;
+    }
+
+    /**
+     * Notebook holding a cell's document; undefined for other documents
+     */
+    static findNotebook(document: vscode.TextDocument): vscode.NotebookDocument | undefined {
+        if (document.uri.scheme !== NOTEBOOK_CELL_SCHEME) {
+            return undefined;
+        }
+        return vscode.workspace.notebookDocuments.find(notebook =>
+            notebook.getCells().some(cell => cell.document.uri.toString() === document.uri.toString())
+        );
+    }
+
+    /**
+     * `bibliography` of a notebook's metadata, a file or a list of files.
+     * Jupyter keeps the .ipynb metadata under `metadata` (or, in older
+     * versions, `custom.metadata`).
+     */
+    static findNotebookBibliographies(metadata: { [key: string]: any }): string[] {
+        const ipynbMetadata = metadata?.metadata ?? metadata?.custom?.metadata ?? metadata;
+        const bibliography = ipynbMetadata?.bibliography;
+        const files: unknown[] = Array.isArray(bibliography) ? bibliography : [bibliography];
+        return files
+            .filter((file): file is string => typeof file === 'string' && file.trim() !== '')
+            .map(file => file.trim());
+    }
+
+    /**
+     * Extract file names from \bibliography{a,b} and \addbibresource{refs.bib}.
+     * \bibliography names get a .bib extension when they have none.
+     */
+    static findBibliographyDeclarations(text: string): string[] {
+        const uncommented = BibliographyResolver.stripComments(text);
+        const files: string[] = [];
+        const pattern = /\\(bibliography|addbibresource|addglobalbib|addsectionbib)\s*(?:\[[^\]]*\])?\s*\{([^}]*)\}/g;
+        let match;
+
+        while ((match = pattern.exec(uncommented)) !== null) {
+            const isBibTeX = match[1] === 'bibliography';
+            const names = isBibTeX ? match[2].split(',') : [match[2]];
+
+            for (const rawName of names) {
+                const name = rawName.trim();
+                if (!name) {
+                    continue;
+                }
+                const file = isBibTeX && path.extname(name) === '' ? `${name}.bib` : name;
+                if (!files.includes(file)) {
+                    files.push(file);
+                }
+            }
+        }
+
+        return files;
+    }
+
+    /**
+     * Read a file, preferring an open document so unsaved edits are seen
+     */
+    async readText(uri: vscode.Uri): Promise<string | null> {
+        const openDocument = vscode.workspace.textDocuments.find(doc => doc.uri.toString() === uri.toString());
+        if (openDocument) {
+            return openDocument.getText();
+        }
+
+        try {
+            const content = await vscode.workspace.fs.readFile(uri);
+            return Buffer.from(content).toString('utf8');
+        } catch (error) {
+            return null;
+        }
+    }
+
+    /**
+     * Markdown and raw cells, so a front matter cell declares bibliographies
+     * as at the top of a Markdown document
+     */
+    private static getNotebookText(notebook: vscode.NotebookDocument): string {
+        return notebook.getCells()
+            .filter(cell => cell.kind === vscode.NotebookCellKind.Markup || cell.document.languageId === 'raw')
+            .map(cell => cell.document.getText())
+            .join('\n\n');
+    }
+
+    private async findRoot(uri: vscode.Uri, text: string, visited: Set<string>): Promise<vscode.Uri> {
+        visited.add(uri.toString());
+
+        const magicRoot = this.getMagicRoot(uri, text);
+        if (magicRoot) {
+            return magicRoot;
+        }
+
+        if (/^[^%\n]*\\documentclass/m.test(text) || uri.scheme !== 'file' || visited.size > MAX_ROOT_DEPTH) {
+            return uri;
+        }
+
+        const parent = await this.findParent(uri, visited);
+        if (!parent) {
+            return uri;
+        }
+
+        return this.findRoot(parent.uri, parent.text, visited);
+    }
+
+    /**
+     * Target of a `% !TEX root = main.tex` comment in the first lines
+     */
+    private getMagicRoot(uri: vscode.Uri, text: string): vscode.Uri | null {
+        const header = text.split('\n', 20).join('\n');
+        const magic = header.match(/^\s*%\s*!\s*TEX\s+root\s*=\s*(.+?)\s*$/im);
+
+        if (!magic || uri.scheme !== 'file') {
+            return null;
+        }
+
+        return vscode.Uri.file(path.resolve(path.dirname(uri.fsPath), magic[1]));
+    }
+
+    /**
+     * Find a .tex file that includes `uri` via \input, \include, \subfile or \import
+     */
+    private async findParent(uri: vscode.Uri, visited: Set<string>): Promise<{ uri: vscode.Uri; text: string } | null> {
+        // Parents live in the same workspace folder
+        const workspaceFolder = vscode.workspace.getWorkspaceFolder(uri);
+        const include = workspaceFolder ? new vscode.RelativePattern(workspaceFolder, '**/*.tex') : '**/*.tex';
+        const candidates = await vscode.workspace.findFiles(include, '**/node_modules/**', MAX_TEX_FILES);
+        const target = this.withoutTexExtension(uri.fsPath);
+
+        for (const candidate of candidates) {
+            if (visited.has(candidate.toString())) {
+                continue;
+            }
+
+            const text = await this.readText(candidate);
+            if (!text) {
+                continue;
+            }
+
+            // \input paths are relative to the root, which may differ from the including file
+            const baseDirs = [path.dirname(candidate.fsPath)];
+            if (workspaceFolder) {
+                baseDirs.push(workspaceFolder.uri.fsPath);
+            }
+
+            for (const included of BibliographyResolver.findIncludes(text)) {
+                for (const baseDir of baseDirs) {
+                    if (this.withoutTexExtension(path.resolve(baseDir, included)) === target) {
+                        return { uri: candidate, text };
+                    }
+                }
+            }
+        }
+
+        return null;
+    }
+
+    /**
+     * .tex roots in the workspace folder of a .bib file that declare it.
+     * Files with a `% !TEX root` comment belong to another root.
+     */
+    async findDeclaringRoots(bibFileUri: vscode.Uri): Promise<{ uri: vscode.Uri; text: string }[]> {
+        const workspaceFolder = vscode.workspace.getWorkspaceFolder(bibFileUri);
+        const include = workspaceFolder ? new vscode.RelativePattern(workspaceFolder, '**/*.tex') : '**/*.tex';
+        const candidates = await vscode.workspace.findFiles(include, '**/node_modules/**', MAX_TEX_FILES);
+        const target = path.normalize(bibFileUri.fsPath);
+        const roots: { uri: vscode.Uri; text: string }[] = [];
+
+        for (const candidate of candidates) {
+            const text = await this.readText(candidate);
+            if (!text || this.getMagicRoot(candidate, text)) {
+                continue;
+            }
+
+            const rootDir = path.dirname(candidate.fsPath);
+            if (BibliographyResolver.findBibliographyDeclarations(text).some(file => path.resolve(rootDir, file) === target)) {
+                roots.push({ uri: candidate, text });
+            }
+        }
+
+        return roots;
+    }
+
+    /**
+     * A root and the .tex files it pulls in through \input, \include,
+     * \subfile and \import, however deeply nested; unreadable files are skipped
+     */
+    async getProjectFiles(root: { uri: vscode.Uri; text: string }): Promise<{ uri: vscode.Uri; text: string }[]> {
+        const files = [root];
+        const visited = new Set([this.withoutTexExtension(root.uri.fsPath)]);
+        const rootDir = path.dirname(root.uri.fsPath);
+
+        for (let i = 0; i < files.length && files.length < MAX_TEX_FILES; i++) {
+            // \input paths are relative to the root, \import paths to the including file
+            const baseDirs = [rootDir, path.dirname(files[i].uri.fsPath)];
+
+            for (const included of BibliographyResolver.findIncludes(files[i].text)) {
+                for (const baseDir of baseDirs) {
+                    const target = this.withoutTexExtension(path.resolve(baseDir, included));
+                    if (visited.has(target)) {
+                        break;
+                    }
+
+                    const uri = vscode.Uri.file(`${target}.tex`);
+                    const text = await this.readText(uri);
+                    if (text !== null) {
+                        visited.add(target);
+                        files.push({ uri, text });
+                        break;
+                    }
+                }
+            }
+        }
+
+        return files;
+    }
+
+    /**
+     * Paths referenced by \input, \include, \subfile, \import and \subimport
+     */
+    private static findIncludes(text: string): string[] {
+        const uncommented = BibliographyResolver.stripComments(text);
+        const includes: string[] = [];
+        const pattern = /\\(?:input|include|subfile|(?:sub)?import\s*\{([^}]*)\})\s*\{([^}]*)\}/g;
+        let match;
+
+        while ((match = pattern.exec(uncommented)) !== null) {
+            includes.push(path.join(match[1] ?? '', match[2].trim()));
+        }
+
+        return includes;
+    }
+
+    private static stripComments(text: string): string {
+        return text.replace(/(^|[^\\])%.*$/gm, '$1');
+    }
+
+    private withoutTexExtension(filePath: string): string {
+        return path.normalize(filePath).replace(/\.tex$/i, '');
+    }
+}
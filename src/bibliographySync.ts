@@ -0,0 +1,247 @@
+/**
+ * Bibliography Sync - Compare .bib entries with their current version in
+ * Zotero and let the user review which ones to update
+ */
+
+import * as vscode from 'vscode';
+import { BibTeXFileManager, LocatedBibEntry } from './bibtexFileManager';
+import { BibEntry, BibTeXParser } from './bibtexParser';
+import { BibTeXCleaner } from './bibtexCleaner';
+import { BibEntryFormatter } from './bibEntryFormatter';
+import { ZoteroAPIClient } from './zoteroApiClient';
+import { ExportOptions } from './types';
+
+/**
+ * A field whose value differs; `before` or `after` is missing for fields
+ * only one side has. The entry type is reported as the field `@type`.
+ */
+export interface FieldChange {
+    name: string;
+    before?: string;
+    after?: string;
+}
+
+/**
+ * A .bib entry that Zotero now exports differently
+ */
+export interface EntryUpdate {
+    current: LocatedBibEntry;
+    /** The entry as exported by Zotero, cleaned */
+    updated: BibEntry;
+    changes: FieldChange[];
+}
+
+/**
+ * Changes the user accepted
+ */
+export interface AcceptedChanges {
+    updates: EntryUpdate[];
+    /** Keys of entries no longer in Zotero to remove */
+    removals: string[];
+}
+
+interface SyncItem extends vscode.QuickPickItem {
+    update?: EntryUpdate;
+    removal?: LocatedBibEntry;
+}
+
+const SHOW_DIFF_BUTTON: vscode.QuickInputButton = {
+    iconPath: new vscode.ThemeIcon('diff'),
+    tooltip: 'Show changes'
+};
+
+export class BibliographySync implements vscode.TextDocumentContentProvider {
+    /**
+     * Scheme of the read-only documents the entry diffs are shown with
+     */
+    static readonly scheme = 'zotero-cite-sync';
+
+    private contents = new Map<string, string>();
+
+    constructor(
+        private apiClient: ZoteroAPIClient,
+        private bibFileManager: BibTeXFileManager
+    ) {}
+
+    /**
+     * Export every key of a .bib file from Zotero again and compare
+     */
+    async findUpdates(bibFileUri: vscode.Uri, exportOptions: ExportOptions): Promise<{ updates: EntryUpdate[]; notInZotero: LocatedBibEntry[] }> {
+        // Only the first definition of a key counts, as in BibTeX
+        const entries = new Map<string, LocatedBibEntry>();
+        for (const located of await this.bibFileManager.parseBibEntries(bibFileUri)) {
+            if (!entries.has(located.entry.key)) {
+                entries.set(located.entry.key, located);
+            }
+        }
+
+        const { bibtex, missingKeys } = await this.apiClient.exportAvailableBibTeX([...entries.keys()], exportOptions);
+        const exported = new Map(
+            BibTeXParser.parse(BibTeXCleaner.cleanBibTeX(bibtex, bibFileUri)).entries.map(entry => [entry.key, entry])
+        );
+        const ignoredFields = BibTeXCleaner.getRemovedFields(bibFileUri);
+        const missing = new Set(missingKeys);
+
+        const updates: EntryUpdate[] = [];
+        const notInZotero: LocatedBibEntry[] = [];
+
+        for (const [key, current] of entries) {
+            const updated = exported.get(key);
+            if (!updated) {
+                if (missing.has(key)) {
+                    notInZotero.push(current);
+                }
+                continue;
+            }
+
+            const changes = BibliographySync.compareEntries(current.entry, updated, ignoredFields);
+            if (changes.length > 0) {
+                updates.push({ current, updated, changes });
+            }
+        }
+
+        return { updates, notInZotero };
+    }
+
+    /**
+     * Fields that differ between two versions of an entry, ignoring
+     * whitespace and the fields in `ignoredFields` (the cleaner removes those
+     * from the export, so they'd always differ)
+     */
+    static compareEntries(current: BibEntry, updated: BibEntry, ignoredFields: string[] = []): FieldChange[] {
+        const changes: FieldChange[] = [];
+        const normalize = (value: string) => value.replace(/\s+/g, ' ').trim();
+
+        if (current.type !== updated.type) {
+            changes.push({ name: '@type', before: current.type, after: updated.type });
+        }
+
+        const names = [...new Set([...current.fields, ...updated.fields].map(field => field.name))]
+            .filter(name => !ignoredFields.includes(name));
+
+        for (const name of names) {
+            const before = BibTeXParser.getField(current, name);
+            const after = BibTeXParser.getField(updated, name);
+            if (before === undefined || after === undefined || normalize(before) !== normalize(after)) {
+                changes.push({ name, before, after });
+            }
+        }
+
+        return changes;
+    }
+
+    /**
+     * Let the user review the differences entry by entry; nothing is
+     * selected up front. Returns undefined when cancelled.
+     */
+    pickChanges(
+        bibFileUri: vscode.Uri,
+        updates: EntryUpdate[],
+        notInZotero: LocatedBibEntry[]
+    ): Promise<AcceptedChanges | undefined> {
+        const fileName = bibFileUri.fsPath.split(/[/\\]/).pop();
+        const items: SyncItem[] = [];
+
+        if (updates.length > 0) {
+            items.push({ label: 'Changed in Zotero', kind: vscode.QuickPickItemKind.Separator });
+            for (const update of updates) {
+                items.push({
+                    label: update.current.entry.key,
+                    description: BibEntryFormatter.getShortReference(update.updated),
+                    detail: BibliographySync.describeChanges(update.changes),
+                    buttons: [SHOW_DIFF_BUTTON],
+                    update
+                });
+            }
+        }
+
+        if (notInZotero.length > 0) {
+            items.push({ label: 'No longer in Zotero', kind: vscode.QuickPickItemKind.Separator });
+            for (const located of notInZotero) {
+                items.push({
+                    label: `$(trash) ${located.entry.key}`,
+                    description: BibEntryFormatter.getShortReference(located.entry),
+                    detail: `Select to remove from ${fileName} (line ${located.keyRange.start.line + 1})`,
+                    removal: located
+                });
+            }
+        }
+
+        const quickPick = vscode.window.createQuickPick<SyncItem>();
+        quickPick.canSelectMany = true;
+        quickPick.matchOnDescription = true;
+        quickPick.matchOnDetail = true;
+        // Keep the list open while diffs are shown
+        quickPick.ignoreFocusOut = true;
+        quickPick.title = `Sync ${fileName} with Zotero`;
+        quickPick.placeholder = 'Select the changes to apply. Unselected entries are left as they are';
+        quickPick.items = items;
+
+        return new Promise(resolve => {
+            let accepted = false;
+
+            quickPick.onDidTriggerItemButton(event => {
+                if (event.item.update) {
+                    this.showDiff(event.item.update);
+                }
+            });
+
+            quickPick.onDidAccept(() => {
+                accepted = true;
+                const selected = quickPick.selectedItems;
+                resolve({
+                    updates: selected.flatMap(item => item.update ? [item.update] : []),
+                    removals: selected.flatMap(item => item.removal ? [item.removal.entry.key] : [])
+                });
+                quickPick.hide();
+            });
+
+            quickPick.onDidHide(() => {
+                quickPick.dispose();
+                this.contents.clear();
+                if (!accepted) {
+                    resolve(undefined);
+                }
+            });
+
+            quickPick.show();
+        });
+    }
+
+    provideTextDocumentContent(uri: vscode.Uri): string {
+        return this.contents.get(uri.toString()) ?? '';
+    }
+
+    /**
+     * One line summary such as "title changed · doi added · note removed"
+     */
+    static describeChanges(changes: FieldChange[]): string {
+        return changes
+            .map(({ name, before, after }) => {
+                if (before === undefined) {
+                    return `${name} added`;
+                }
+                return after === undefined ? `${name} removed` : `${name} changed`;
+            })
+            .join(' · ');
+    }
+
+    /**
+     * Open a diff of the entry's text in the .bib file and in Zotero
+     */
+    private async showDiff(update: EntryUpdate): Promise<void> {
+        const key = update.current.entry.key;
+        const current = vscode.Uri.from({ scheme: BibliographySync.scheme, path: `/${key}.bib`, query: 'bib' });
+        const updated = vscode.Uri.from({ scheme: BibliographySync.scheme, path: `/${key}.bib`, query: 'zotero' });
+        this.contents.set(current.toString(), update.current.entry.raw);
+        this.contents.set(updated.toString(), update.updated.raw);
+
+        await vscode.commands.executeCommand(
+            'vscode.diff',
+            current,
+            updated,
+            `${key}: .bib ↔ Zotero`,
+            { preview: true, preserveFocus: true }
+        );
+    }
+}
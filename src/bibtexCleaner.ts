@@ -3,6 +3,7 @@
  */
 
 import * as vscode from 'vscode';
+import { BibTeXParser, BibEntry, BibField } from './bibtexParser';
 
 export class BibTeXCleaner {
     // Default fields to remove
@@ -14,8 +15,8 @@ export class BibTeXCleaner {
     /**
      * Get fields to remove from configuration
      */
-    private static getFieldsToRemove(): string[] {
-        const config = vscode.workspace.getConfiguration('zotero-cite');
+    private static getFieldsToRemove(scope?: vscode.Uri): string[] {
+        const config = vscode.workspace.getConfiguration('zotero-cite', scope);
         const configuredFields = config.get<string[]>('removeFields');
         
         if (configuredFields && Array.isArray(configuredFields)) {
@@ -26,137 +27,87 @@ export class BibTeXCleaner {
     }
 
     /**
-     * Clean BibTeX entries by removing unwanted fields
+     * Clean BibTeX entries by removing unwanted fields, using the settings
+     * of the workspace folder of `scope`
      */
-    static cleanBibTeX(bibtex: string): string {
-        const fieldsToRemove = this.getFieldsToRemove();
+    static cleanBibTeX(bibtex: string, scope?: vscode.Uri): string {
+        const fieldsToRemove = this.getFieldsToRemove(scope);
         
         if (fieldsToRemove.length === 0) {
             return bibtex; // No cleaning needed
         }
 
-        // Split into individual entries
-        const entries = this.splitEntries(bibtex);
+        const parsed = BibTeXParser.parse(bibtex);
         
-        // Clean each entry
-        const cleanedEntries = entries.map(entry => this.cleanEntry(entry, fieldsToRemove));
+        // Clean each entry; macros and preambles are kept as they are
+        const cleanedBlocks = parsed.nodes
+            .filter(node => node.kind !== 'text')
+            .map(node => node.kind === 'entry'
+                ? this.cleanEntry(bibtex, node, fieldsToRemove)
+                : node.raw);
         
         // Join back together
-        return cleanedEntries.join('\n\n');
+        return cleanedBlocks.join('\n\n');
     }
 
     /**
-     * Split BibTeX string into individual entries
+     * Clean a single BibTeX entry, removing whole field lines where possible
      */
-    private static splitEntries(bibtex: string): string[] {
-        const entries: string[] = [];
-        const lines = bibtex.split('\n');
-        let currentEntry: string[] = [];
-        let inEntry = false;
-        let braceCount = 0;
-
-        for (const line of lines) {
-            // Check if this line starts an entry
-            if (line.trim().match(/^@\w+\{/)) {
-                if (currentEntry.length > 0) {
-                    entries.push(currentEntry.join('\n'));
-                }
-                currentEntry = [line];
-                inEntry = true;
-                braceCount = 1;
-            } else if (inEntry) {
-                currentEntry.push(line);
-                
-                // Count braces to detect end of entry
-                for (const char of line) {
-                    if (char === '{') braceCount++;
-                    if (char === '}') braceCount--;
-                }
-
-                if (braceCount === 0) {
-                    inEntry = false;
-                }
-            }
-        }
-
-        // Add last entry
-        if (currentEntry.length > 0) {
-            entries.push(currentEntry.join('\n'));
+    private static cleanEntry(source: string, entry: BibEntry, fieldsToRemove: string[]): string {
+        const removals = entry.fields
+            .filter(field => fieldsToRemove.includes(field.name))
+            .map(field => this.getFieldSpan(source, field));
+
+        let cleaned = '';
+        let cursor = entry.start;
+        for (const span of removals) {
+            cleaned += source.slice(cursor, span.start);
+            cursor = span.end;
         }
+        cleaned += source.slice(cursor, entry.end);
 
-        return entries;
+        return cleaned;
     }
 
     /**
-     * Clean a single BibTeX entry
+     * Get the span covering a field, its trailing comma and, when the field
+     * sits on its own line, the surrounding indentation and line break
      */
-    private static cleanEntry(entry: string, fieldsToRemove: string[]): string {
-        const lines = entry.split('\n');
-        const cleanedLines: string[] = [];
-        let skipNextLines = false;
-
-        for (let i = 0; i < lines.length; i++) {
-            const line = lines[i];
-            const trimmed = line.trim();
-
-            // Keep the entry header (@article{key,)
-            if (trimmed.match(/^@\w+\{/)) {
-                cleanedLines.push(line);
-                continue;
-            }
-
-            // Keep the closing brace
-            if (trimmed === '}' && i === lines.length - 1) {
-                cleanedLines.push(line);
-                continue;
-            }
+    private static getFieldSpan(source: string, field: BibField): { start: number; end: number } {
+        let start = field.start;
+        while (start > 0 && (source[start - 1] === ' ' || source[start - 1] === '\t')) {
+            start--;
+        }
+        const ownLine = start === 0 || source[start - 1] === '\n';
+        if (!ownLine) {
+            start = field.start;
+        }
 
-            // Check if this line starts a field to remove
-            const fieldMatch = trimmed.match(/^(\w+)\s*=/);
-            if (fieldMatch) {
-                const fieldName = fieldMatch[1].toLowerCase();
-                
-                if (fieldsToRemove.includes(fieldName)) {
-                    // Skip this field
-                    // Check if field value spans multiple lines (ends with comma or not)
-                    if (!trimmed.endsWith(',')) {
-                        skipNextLines = true;
-                    }
-                    continue;
-                }
+        let end = field.end;
+        while (end < source.length && (source[end] === ' ' || source[end] === '\t')) {
+            end++;
+        }
+        if (source[end] === ',') {
+            end++;
+        }
+        if (ownLine) {
+            while (end < source.length && (source[end] === ' ' || source[end] === '\t')) {
+                end++;
             }
-
-            // If we're skipping a multi-line field value
-            if (skipNextLines) {
-                // Continue skipping until we find a line ending with comma or new field
-                if (trimmed.endsWith(',') || trimmed.match(/^\w+\s*=/)) {
-                    skipNextLines = false;
-                    
-                    // If this line starts a new field, process it
-                    if (trimmed.match(/^\w+\s*=/)) {
-                        const fieldMatch = trimmed.match(/^(\w+)\s*=/);
-                        if (fieldMatch) {
-                            const fieldName = fieldMatch[1].toLowerCase();
-                            if (!fieldsToRemove.includes(fieldName)) {
-                                cleanedLines.push(line);
-                            }
-                        }
-                    }
-                }
-                continue;
+            if (source.startsWith('\r\n', end)) {
+                end += 2;
+            } else if (source[end] === '\n') {
+                end++;
             }
-
-            // Keep this line
-            cleanedLines.push(line);
         }
 
-        return cleanedLines.join('\n');
+        return { start, end };
     }
 
     /**
      * Get list of fields that will be removed
      */
-    static getRemovedFields(): string[] {
-        return this.getFieldsToRemove();
+    static getRemovedFields(scope?: vscode.Uri): string[] {
+        return this.getFieldsToRemove(scope);
     }
 }
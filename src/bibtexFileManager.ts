@@ -3,34 +3,94 @@
  */
 
 import * as vscode from 'vscode';
+import * as path from 'path';
 import { ConfigurationManager } from './configurationManager';
+import { BibliographyResolver } from './bibliographyResolver';
+import { BibEntry, BibTeXParser } from './bibtexParser';
+import { LineIndex } from './lineIndex';
+import { BibTextEdit, BibTeXWriter, DecodedBibFile } from './bibtexWriter';
+import { DuplicateDetector, DuplicateMatch } from './duplicateDetector';
+import { EditTransaction } from './editTransaction';
+import { CSLBibliography, CSLFormat, CSLItem } from './cslBibliography';
+import { getCitationFormatter } from './citationFormatter';
+import { BibliographyFormat, HayagrivaBibliography } from './hayagrivaBibliography';
+
+/**
+ * Where the target .bib file of a document came from
+ */
+export type BibFileSource = 'selected' | 'declared' | 'default';
+
+/**
+ * A parsed entry together with the .bib file and position defining it
+ */
+export interface LocatedBibEntry {
+    entry: BibEntry;
+    uri: vscode.Uri;
+    /** Range of the citation key in the `@type{key,` header */
+    keyRange: vscode.Range;
+}
+
+/**
+ * Text of a .bib file to edit, with the open document showing it if any
+ */
+interface BibSource extends DecodedBibFile {
+    document?: vscode.TextDocument;
+}
 
 export class BibTeXFileManager {
+    /** .bib file chosen by the user per TeX root, keyed by root URI */
+    private projectBibFiles = new Map<string, vscode.Uri>();
+    /** Parsed entries per .bib file with the text they were parsed from */
+    private parsedBibFiles = new Map<string, { text: string; entries: LocatedBibEntry[] }>();
+
     constructor(
-        private configManager: ConfigurationManager
+        private configManager: ConfigurationManager,
+        private bibliographyResolver: BibliographyResolver
     ) {}
 
     /**
-     * Get the configured .bib file or prompt user to select one
+     * Get the .bib file for a document, prompting when it is ambiguous.
+     * Order: file chosen for the TeX project, bibliography declared in the
+     * root (asking if there are several), configured default, open dialog.
      */
-    async selectBibFile(): Promise<vscode.Uri | null> {
-        // First, check if there's a configured default
-        const defaultBibFile = this.configManager.getDefaultBibFile();
-        
-        if (defaultBibFile) {
-            const bibFileUri = this.configManager.resolveBibFilePath(defaultBibFile);
-            if (bibFileUri) {
-                return bibFileUri;
+    async selectBibFile(document?: vscode.TextDocument): Promise<vscode.Uri | null> {
+        if (document && this.declaresBibliographies(document)) {
+            const chosen = this.projectBibFiles.get((await this.bibliographyResolver.resolveRoot(document)).toString());
+            if (chosen) {
+                return chosen;
+            }
+
+            const declared = await this.bibliographyResolver.getBibliographyFiles(document);
+            if (declared.length === 1) {
+                return declared[0];
+            }
+            if (declared.length > 1) {
+                const picked = await vscode.window.showQuickPick(
+                    declared.map(uri => ({ label: path.basename(uri.fsPath), description: uri.fsPath, uri })),
+                    { placeHolder: 'The document declares several bibliographies. Select the .bib file for new entries' }
+                );
+                if (!picked) {
+                    return null;
+                }
+                await this.setProjectBibFile(document, picked.uri);
+                return picked.uri;
             }
         }
 
+        // Then check if there's a configured default for the document's folder
+        const bibFileUri = this.getConfiguredBibFile(document && BibliographyResolver.getResourceUri(document));
+        if (bibFileUri) {
+            return bibFileUri;
+        }
+
         // No default configured, prompt user to select
         const selected = await vscode.window.showOpenDialog({
             canSelectFiles: true,
             canSelectFolders: false,
             canSelectMany: false,
             filters: {
-                'BibTeX Files': ['bib']
+                'BibTeX Files': ['bib'],
+                'CSL-JSON / YAML Files (CSL or Hayagriva)': ['json', 'yaml', 'yml']
             },
             title: 'Select .bib file for citations'
         });
@@ -39,60 +99,171 @@ export class BibTeXFileManager {
             return null; // User cancelled
         }
 
+        if (document && this.declaresBibliographies(document)) {
+            await this.setProjectBibFile(document, selected[0]);
+        }
+
         return selected[0];
     }
 
     /**
-     * Parse .bib file and extract existing citation keys
+     * Get the .bib file for a document without prompting; with several
+     * declared bibliographies the first one is reported
      */
-    async parseBibFile(fileUri: vscode.Uri): Promise<Set<string>> {
-        const keys = new Set<string>();
+    async getTargetBibFile(document?: vscode.TextDocument): Promise<{ uri: vscode.Uri; source: BibFileSource } | null> {
+        if (document && this.declaresBibliographies(document)) {
+            const chosen = this.projectBibFiles.get((await this.bibliographyResolver.resolveRoot(document)).toString());
+            if (chosen) {
+                return { uri: chosen, source: 'selected' };
+            }
+
+            const declared = await this.bibliographyResolver.getBibliographyFiles(document);
+            if (declared.length > 0) {
+                return { uri: declared[0], source: 'declared' };
+            }
+        }
+
+        const configured = this.getConfiguredBibFile(document && BibliographyResolver.getResourceUri(document));
+        return configured ? { uri: configured, source: 'default' } : null;
+    }
+
+    /**
+     * .bib files declared by the document's TeX root (or by the document
+     * itself in other languages)
+     */
+    async getDeclaredBibFiles(document: vscode.TextDocument): Promise<vscode.Uri[]> {
+        if (!this.declaresBibliographies(document)) {
+            return [];
+        }
+        return this.bibliographyResolver.getBibliographyFiles(document);
+    }
+
+    /**
+     * .bib files searched for a document's citations: every declared
+     * bibliography plus the file new entries go to
+     */
+    async getProjectBibFiles(document: vscode.TextDocument): Promise<vscode.Uri[]> {
+        const files = await this.getDeclaredBibFiles(document);
+        const target = await this.getTargetBibFile(document);
+
+        if (target && !files.some(uri => uri.toString() === target.uri.toString())) {
+            files.push(target.uri);
+        }
+
+        return files;
+    }
+
+    /**
+     * Remember the .bib file chosen for the document's TeX project
+     */
+    async setProjectBibFile(document: vscode.TextDocument, bibFileUri: vscode.Uri): Promise<void> {
+        const rootUri = await this.bibliographyResolver.resolveRoot(document);
+        this.projectBibFiles.set(rootUri.toString(), bibFileUri);
+    }
+
+    /**
+     * Whether the document belongs to a TeX project whose bibliographies can be resolved
+     */
+    isTeXDocument(document: vscode.TextDocument): boolean {
+        return document.languageId === 'latex' || document.fileName.endsWith('.tex');
+    }
+
+    /**
+     * Whether the document's bibliographies can be resolved: a TeX project,
+     * or a language with its own citation syntax such as Markdown
+     */
+    declaresBibliographies(document: vscode.TextDocument): boolean {
+        return this.isTeXDocument(document) || getCitationFormatter(document) !== undefined;
+    }
+
+    /**
+     * Format of a CSL-JSON or CSL-YAML bibliography by its extension, null
+     * for .bib files. Hayagriva files count as YAML; see getBibliographyFormat.
+     */
+    getCSLFormat(fileUri: vscode.Uri): CSLFormat | null {
+        return CSLBibliography.getFormat(fileUri.path);
+    }
 
+    /**
+     * Format of a bibliography other than .bib, null for .bib files. A YAML
+     * file is told apart by its content; an empty one takes the format the
+     * citing document's language uses (Hayagriva for Typst).
+     */
+    async getBibliographyFormat(fileUri: vscode.Uri, document?: vscode.TextDocument): Promise<BibliographyFormat | null> {
+        const format = this.getCSLFormat(fileUri);
+        if (format !== 'yaml') {
+            return format;
+        }
+
+        let text = '';
         try {
-            const fileContent = await vscode.workspace.fs.readFile(fileUri);
-            const content = Buffer.from(fileContent).toString('utf8');
+            text = (await this.readBibFile(fileUri)).text;
+        } catch (error) {
+            // File doesn't exist yet
+        }
+        if (text.trim() !== '') {
+            return HayagrivaBibliography.isHayagriva(text) ? 'hayagriva' : 'yaml';
+        }
+        return document && getCitationFormatter(document)?.yamlFormat === 'hayagriva' ? 'hayagriva' : 'yaml';
+    }
 
-            // Use regex to extract citation keys: @type{key,
-            const regex = /^@\w+\{([^,]+),/gm;
-            let match;
+    /**
+     * Parse .bib file (or the ids of a CSL bibliography) and extract existing citation keys
+     */
+    async parseBibFile(fileUri: vscode.Uri): Promise<Set<string>> {
+        if (this.getCSLFormat(fileUri)) {
+            return new Set((await this.parseCSLItems(fileUri)).map(item => item.id));
+        }
+        const entries = await this.parseBibEntries(fileUri);
+        return new Set(entries.map(located => located.entry.key));
+    }
 
-            while ((match = regex.exec(content)) !== null) {
-                const key = match[1].trim();
-                if (key) {
-                    keys.add(key);
-                }
-            }
+    /**
+     * Parse .bib file into entries with the position of their citation keys.
+     * Results are reused while the file's text is unchanged.
+     */
+    async parseBibEntries(fileUri: vscode.Uri): Promise<LocatedBibEntry[]> {
+        let text: string;
+        try {
+            text = (await this.readBibFile(fileUri)).text;
         } catch (error) {
-            // File might not exist yet, return empty set
+            // File might not exist yet, return no entries
             console.log(`Could not read .bib file: ${error}`);
+            return [];
         }
 
-        return keys;
+        const cached = this.parsedBibFiles.get(fileUri.toString());
+        if (cached && cached.text === text) {
+            return cached.entries;
+        }
+
+        const lines = new LineIndex(text);
+        const entries = BibTeXParser.parse(text).entries
+            .filter(entry => entry.key)
+            .map(entry => ({
+                entry,
+                uri: fileUri,
+                keyRange: lines.rangeAt(entry.keyStart, entry.keyEnd)
+            }));
+
+        this.parsedBibFiles.set(fileUri.toString(), { text, entries });
+        return entries;
     }
 
     /**
-     * Append BibTeX entries to file, skipping duplicates
+     * Append BibTeX entries to file, skipping duplicates.
+     * Edits are staged on `transaction` when given, otherwise applied immediately.
      */
     async appendEntries(
         fileUri: vscode.Uri,
         bibtexEntries: string,
-        existingKeys: Set<string>
+        existingKeys: Set<string>,
+        transaction?: EditTransaction
     ): Promise<void> {
         // Parse the new entries to extract their keys
-        const newEntries: Array<{ key: string; content: string }> = [];
-        const entryRegex = /(@\w+\{[^,]+,[\s\S]*?\n\})/g;
-        const keyRegex = /@\w+\{([^,]+),/;
-
-        let match;
-        while ((match = entryRegex.exec(bibtexEntries)) !== null) {
-            const entryContent = match[1];
-            const keyMatch = keyRegex.exec(entryContent);
-            
-            if (keyMatch) {
-                const key = keyMatch[1].trim();
-                newEntries.push({ key, content: entryContent });
-            }
-        }
+        const newEntries = BibTeXParser.parse(bibtexEntries).entries
+            .filter(entry => entry.key)
+            .map(entry => ({ key: entry.key, content: entry.raw }));
 
         // Filter out entries that already exist
         const entriesToAppend = newEntries.filter(entry => !existingKeys.has(entry.key));
@@ -102,40 +273,222 @@ export class BibTeXFileManager {
             return;
         }
 
-        // Read existing file content (or empty string if file doesn't exist)
-        let existingContent = '';
+        // Read the file (or start from scratch if it doesn't exist)
+        const source = await this.readBibSource(fileUri);
+
+        // Append new entries without touching the existing content
+        const writer = new BibTeXWriter(source ? source.text : '');
+        writer.insertEntries(entriesToAppend.map(e => e.content));
+
+        await this.stageWriter(fileUri, source, writer, transaction);
+    }
+
+    /**
+     * Replace duplicate entries in place with their new versions. The file
+     * may have changed since `duplicates` were found, so they are looked up
+     * again in its current text, by the keys of the confirmed pairs.
+     */
+    async replaceDuplicates(
+        fileUri: vscode.Uri,
+        bibtexEntries: string,
+        duplicates: DuplicateMatch[],
+        transaction?: EditTransaction
+    ): Promise<void> {
+        const source = await this.readBibSource(fileUri);
+        if (!source) {
+            throw new Error(`Cannot open .bib file: ${fileUri.fsPath}`);
+        }
+
+        const confirmed = new Set(duplicates.map(d => `${d.newEntry.key}\n${d.existingEntry.key}`));
+        const current = DuplicateDetector.detectDuplicates(bibtexEntries, source.text)
+            .filter(d => confirmed.has(`${d.newEntry.key}\n${d.existingEntry.key}`));
+
+        const writer = new BibTeXWriter(source.text);
+        DuplicateDetector.replaceDuplicates(writer, bibtexEntries, current);
+
+        await this.stageWriter(fileUri, source, writer, transaction);
+    }
+
+    /**
+     * Delete the entries with the given keys in a single edit
+     */
+    async removeEntries(
+        fileUri: vscode.Uri,
+        keys: Set<string>,
+        transaction?: EditTransaction
+    ): Promise<void> {
+        const source = await this.readBibSource(fileUri);
+        if (!source) {
+            throw new Error(`Cannot open .bib file: ${fileUri.fsPath}`);
+        }
+
+        const writer = new BibTeXWriter(source.text);
+        writer.deleteEntries(writer.getEntries().filter(entry => keys.has(entry.key)));
+
+        await this.stageWriter(fileUri, source, writer, transaction);
+    }
+
+    /**
+     * Rewrite entries in place and delete others in a single edit.
+     * `replacements` maps keys to new entry text; only the first definition
+     * of a key is rewritten.
+     */
+    async updateEntries(
+        fileUri: vscode.Uri,
+        replacements: Map<string, string>,
+        removals: Set<string>,
+        transaction?: EditTransaction
+    ): Promise<void> {
+        const source = await this.readBibSource(fileUri);
+        if (!source) {
+            throw new Error(`Cannot open .bib file: ${fileUri.fsPath}`);
+        }
+
+        const writer = new BibTeXWriter(source.text);
+        const replaced = new Set<string>();
+        for (const entry of writer.getEntries()) {
+            const newText = replacements.get(entry.key);
+            if (newText !== undefined && !replaced.has(entry.key)) {
+                writer.replaceEntry(entry, newText);
+                replaced.add(entry.key);
+            }
+        }
+        writer.deleteEntries(writer.getEntries().filter(entry => removals.has(entry.key)));
+
+        await this.stageWriter(fileUri, source, writer, transaction);
+    }
+
+    /**
+     * Items of a CSL (or Hayagriva) bibliography; none if the file doesn't exist yet
+     */
+    async parseCSLItems(fileUri: vscode.Uri): Promise<CSLItem[]> {
+        const format = this.getCSLFormat(fileUri);
+        if (!format) {
+            return [];
+        }
+
+        let text: string;
         try {
-            const fileContent = await vscode.workspace.fs.readFile(fileUri);
-            existingContent = Buffer.from(fileContent).toString('utf8');
+            text = (await this.readBibFile(fileUri)).text;
         } catch (error) {
-            // File doesn't exist, will be created
+            console.log(`Could not read bibliography file: ${error}`);
+            return [];
         }
+        return format === 'yaml' && HayagrivaBibliography.isHayagriva(text)
+            ? HayagrivaBibliography.parse(text)
+            : CSLBibliography.parse(text, format);
+    }
 
-        // Ensure existing content ends with newline
-        if (existingContent && !existingContent.endsWith('\n')) {
-            existingContent += '\n';
+    /**
+     * Add items to a CSL (or Hayagriva) bibliography and replace existing
+     * items, keyed by the id they replace. The file is created if needed.
+     */
+    async mergeCSLItems(
+        fileUri: vscode.Uri,
+        format: BibliographyFormat,
+        items: CSLItem[],
+        replacements: Map<string, CSLItem> = new Map(),
+        transaction?: EditTransaction
+    ): Promise<void> {
+        if (items.length === 0 && replacements.size === 0) {
+            return;
         }
 
-        // Append new entries
-        const newContent = existingContent + '\n' + entriesToAppend.map(e => e.content).join('\n\n') + '\n';
+        const source = await this.readBibSource(fileUri);
+        const text = source ? source.text : '';
+        const merged = format === 'hayagriva'
+            ? HayagrivaBibliography.merge(text, items, replacements)
+            : CSLBibliography.merge(text, format, items, replacements);
+
+        const target = transaction ?? new EditTransaction();
+        this.stageEdits(target, fileUri, source, [{ start: 0, end: text.length, newText: merged }], merged);
+
+        if (!transaction && !(await target.apply())) {
+            throw new Error(`Failed to update bibliography file: ${fileUri.fsPath}`);
+        }
+    }
 
-        // Write back to file
-        await vscode.workspace.fs.writeFile(
-            fileUri,
-            Buffer.from(newContent, 'utf8')
+    /**
+     * Read a .bib file, preferring the open document so unsaved edits are
+     * seen. VS Code owns the encoding of open documents, reported as UTF-8.
+     */
+    async readBibFile(fileUri: vscode.Uri): Promise<DecodedBibFile> {
+        const openDocument = vscode.workspace.textDocuments.find(
+            doc => doc.uri.toString() === fileUri.toString()
         );
+        if (openDocument) {
+            return { text: openDocument.getText(), encoding: 'utf8' };
+        }
+
+        const fileContent = await vscode.workspace.fs.readFile(fileUri);
+        return BibTeXWriter.decode(fileContent);
+    }
+
+    /**
+     * Text to edit: the open document, else the file decoded in its own
+     * encoding; null if it doesn't exist
+     */
+    private async readBibSource(fileUri: vscode.Uri): Promise<BibSource | null> {
+        const document = vscode.workspace.textDocuments.find(doc => doc.uri.toString() === fileUri.toString());
+        if (document) {
+            return { text: document.getText(), encoding: 'utf8', document };
+        }
+
+        try {
+            return BibTeXWriter.decode(await vscode.workspace.fs.readFile(fileUri));
+        } catch (error) {
+            return null;
+        }
+    }
+
+    /**
+     * Stage the writer's edits, applying them right away without a transaction
+     */
+    private async stageWriter(
+        fileUri: vscode.Uri,
+        source: BibSource | null,
+        writer: BibTeXWriter,
+        transaction?: EditTransaction
+    ): Promise<void> {
+        const target = transaction ?? new EditTransaction();
+        this.stageEdits(target, fileUri, source, writer.getEdits(), writer.toString());
+
+        if (!transaction && !(await target.apply())) {
+            throw new Error(`Failed to update .bib file: ${fileUri.fsPath}`);
+        }
+    }
+
+    /**
+     * Edit the open document, write a closed file directly so its encoding
+     * is kept, or create the file with `content`
+     */
+    private stageEdits(
+        transaction: EditTransaction,
+        fileUri: vscode.Uri,
+        source: BibSource | null,
+        edits: BibTextEdit[],
+        content: string
+    ): void {
+        if (source?.document) {
+            transaction.replaceOffsets(source.document, edits);
+        } else if (source) {
+            transaction.editFile(fileUri, source, edits);
+        } else {
+            transaction.createFile(fileUri, content);
+        }
     }
 
     /**
-     * Get the configured .bib file URI (without prompting)
+     * Get the configured .bib file URI (without prompting) for the
+     * workspace folder of `scope`
      */
-    getConfiguredBibFile(): vscode.Uri | null {
-        const defaultBibFile = this.configManager.getDefaultBibFile();
+    getConfiguredBibFile(scope?: vscode.Uri): vscode.Uri | null {
+        const defaultBibFile = this.configManager.getDefaultBibFile(scope);
         
         if (!defaultBibFile) {
             return null;
         }
 
-        return this.configManager.resolveBibFilePath(defaultBibFile);
+        return this.configManager.resolveBibFilePath(defaultBibFile, scope);
     }
 }
@@ -0,0 +1,519 @@
+/**
+ * BibTeX Parser - Tokenize .bib source into entries, fields, macros and
+ * interstitial text while keeping source offsets
+ */
+
+/**
+ * One operand of a field value; operands are joined with `#`
+ */
+export type BibValuePart =
+    | { kind: 'braced'; text: string }
+    | { kind: 'quoted'; text: string }
+    | { kind: 'number'; text: string }
+    | { kind: 'macro'; name: string };
+
+/**
+ * A `name = value` pair inside an entry or @string block
+ */
+export interface BibField {
+    /** Lower-cased field name */
+    name: string;
+    /** Field name as written in the source */
+    rawName: string;
+    parts: BibValuePart[];
+    /** Value with braces/quotes stripped, macros expanded and `#` applied */
+    value: string;
+    /** Offset of the field name */
+    start: number;
+    /** Offset just after the last value operand */
+    end: number;
+    valueStart: number;
+    valueEnd: number;
+}
+
+/**
+ * A regular entry such as `@article{key, ...}`
+ */
+export interface BibEntry {
+    kind: 'entry';
+    /** Lower-cased entry type */
+    type: string;
+    key: string;
+    fields: BibField[];
+    start: number;
+    end: number;
+    keyStart: number;
+    keyEnd: number;
+    raw: string;
+    /** Set when the entry is malformed; `end` then stops where recovery resumed */
+    error?: string;
+}
+
+/**
+ * An `@string{name = value}` macro definition
+ */
+export interface BibStringDefinition {
+    kind: 'string';
+    name: string;
+    field: BibField;
+    start: number;
+    end: number;
+    raw: string;
+}
+
+/**
+ * An `@preamble{...}` block
+ */
+export interface BibPreamble {
+    kind: 'preamble';
+    parts: BibValuePart[];
+    value: string;
+    start: number;
+    end: number;
+    raw: string;
+}
+
+/**
+ * An `@comment{...}` block
+ */
+export interface BibCommentBlock {
+    kind: 'comment';
+    text: string;
+    start: number;
+    end: number;
+    raw: string;
+}
+
+/**
+ * Anything between blocks: whitespace, `%` lines, free-form notes
+ */
+export interface BibText {
+    kind: 'text';
+    start: number;
+    end: number;
+    raw: string;
+}
+
+export type BibNode = BibEntry | BibStringDefinition | BibPreamble | BibCommentBlock | BibText;
+
+/**
+ * Parsed .bib source; `nodes` cover the whole input without gaps
+ */
+export interface BibFile {
+    source: string;
+    nodes: BibNode[];
+    entries: BibEntry[];
+    strings: Map<string, string>;
+}
+
+class BibParseError extends Error {
+    constructor(message: string, public readonly offset: number) {
+        super(message);
+    }
+}
+
+/**
+ * Characters that cannot appear in identifiers (entry types, field names, macros)
+ */
+const IDENTIFIER_PATTERN = /[^\s"#%'(),={}]/;
+
+export class BibTeXParser {
+    /**
+     * Parse BibTeX source into an AST
+     */
+    static parse(source: string): BibFile {
+        return new BibTeXParser(source).parseFile();
+    }
+
+    /**
+     * Get the resolved value of a field (field name is case-insensitive)
+     */
+    static getField(entry: BibEntry, name: string): string | undefined {
+        const lower = name.toLowerCase();
+        return entry.fields.find(f => f.name === lower)?.value;
+    }
+
+    private pos = 0;
+    private readonly nodes: BibNode[] = [];
+    private readonly entries: BibEntry[] = [];
+    private readonly strings = new Map<string, string>();
+
+    private constructor(private readonly source: string) {}
+
+    private parseFile(): BibFile {
+        let textStart = 0;
+
+        while (this.pos < this.source.length) {
+            const at = this.source.indexOf('@', this.pos);
+            if (at === -1) {
+                break;
+            }
+
+            const node = this.parseBlock(at);
+            if (!node) {
+                // Not a block (e.g. an e-mail address in a note), keep scanning
+                this.pos = at + 1;
+                continue;
+            }
+
+            if (at > textStart) {
+                this.pushText(textStart, at);
+            }
+            this.nodes.push(node);
+            if (node.kind === 'entry') {
+                this.entries.push(node);
+            }
+            textStart = node.end;
+            this.pos = node.end;
+        }
+
+        if (textStart < this.source.length) {
+            this.pushText(textStart, this.source.length);
+        }
+
+        return {
+            source: this.source,
+            nodes: this.nodes,
+            entries: this.entries,
+            strings: this.strings
+        };
+    }
+
+    private pushText(start: number, end: number): void {
+        this.nodes.push({ kind: 'text', start, end, raw: this.source.slice(start, end) });
+    }
+
+    /**
+     * Parse a block starting at `@`; returns null if `@` does not start a block
+     */
+    private parseBlock(at: number): BibNode | null {
+        this.pos = at + 1;
+        this.skipWhitespace();
+        const type = this.readIdentifier();
+        if (!type) {
+            return null;
+        }
+        this.skipWhitespace();
+
+        const open = this.source[this.pos];
+        if (open !== '{' && open !== '(') {
+            return null;
+        }
+        const close = open === '{' ? '}' : ')';
+        this.pos++;
+
+        const lowerType = type.toLowerCase();
+
+        if (lowerType === 'comment') {
+            return this.parseComment(at, close);
+        }
+
+        if (lowerType === 'preamble') {
+            return this.recover(at, () => {
+                this.skipWhitespace();
+                const { parts, value } = this.parseValue();
+                this.expectClose(close);
+                return {
+                    kind: 'preamble',
+                    parts,
+                    value,
+                    start: at,
+                    end: this.pos,
+                    raw: this.source.slice(at, this.pos)
+                };
+            });
+        }
+
+        if (lowerType === 'string') {
+            return this.recover(at, () => {
+                this.skipWhitespace();
+                const field = this.parseField();
+                if (!field) {
+                    throw new BibParseError('Expected macro definition', this.pos);
+                }
+                this.skipWhitespace();
+                if (this.source[this.pos] === ',') {
+                    this.pos++;
+                }
+                this.expectClose(close);
+                this.strings.set(field.name, field.value);
+                return {
+                    kind: 'string',
+                    name: field.name,
+                    field,
+                    start: at,
+                    end: this.pos,
+                    raw: this.source.slice(at, this.pos)
+                };
+            });
+        }
+
+        return this.parseEntry(at, lowerType, close);
+    }
+
+    private parseComment(at: number, close: string): BibCommentBlock {
+        const contentStart = this.pos;
+        const end = close === '}'
+            ? this.findBalancedEnd(contentStart)
+            : this.source.indexOf(')', contentStart);
+
+        // Unterminated @comment swallows the rest of the line only
+        const stop = end === -1 ? this.lineEnd(contentStart) : end + 1;
+        this.pos = stop;
+
+        return {
+            kind: 'comment',
+            text: this.source.slice(contentStart, end === -1 ? stop : end),
+            start: at,
+            end: stop,
+            raw: this.source.slice(at, stop)
+        };
+    }
+
+    private parseEntry(at: number, type: string, close: string): BibEntry {
+        this.skipWhitespace();
+        const keyStart = this.pos;
+        while (this.pos < this.source.length &&
+               this.source[this.pos] !== ',' &&
+               this.source[this.pos] !== close &&
+               this.source[this.pos] !== '\n') {
+            this.pos++;
+        }
+        const rawKey = this.source.slice(keyStart, this.pos);
+        const key = rawKey.trim();
+        const keyEnd = keyStart + rawKey.trimEnd().length;
+
+        const fields: BibField[] = [];
+        const entry: BibEntry = {
+            kind: 'entry',
+            type,
+            key,
+            fields,
+            start: at,
+            end: at,
+            keyStart,
+            keyEnd,
+            raw: ''
+        };
+
+        try {
+            while (true) {
+                this.skipWhitespace();
+                const ch = this.source[this.pos];
+
+                if (ch === close) {
+                    this.pos++;
+                    break;
+                }
+
+                if (ch === ',') {
+                    this.pos++;
+                    continue;
+                }
+
+                if (this.pos >= this.source.length) {
+                    throw new BibParseError(`Unterminated entry "${key}"`, this.pos);
+                }
+
+                const field = this.parseField();
+                if (!field) {
+                    throw new BibParseError(`Unexpected character "${ch}" in entry "${key}"`, this.pos);
+                }
+                fields.push(field);
+            }
+            entry.end = this.pos;
+        } catch (error) {
+            if (!(error instanceof BibParseError)) {
+                throw error;
+            }
+            entry.error = error.message;
+            entry.end = this.recoveryPoint(at);
+            this.pos = entry.end;
+        }
+
+        entry.raw = this.source.slice(at, entry.end);
+        return entry;
+    }
+
+    /**
+     * Run a block parser; on failure return the region as interstitial text
+     */
+    private recover(at: number, parse: () => BibNode): BibNode {
+        try {
+            return parse();
+        } catch (error) {
+            if (!(error instanceof BibParseError)) {
+                throw error;
+            }
+            const end = this.recoveryPoint(at);
+            this.pos = end;
+            return { kind: 'text', start: at, end, raw: this.source.slice(at, end) };
+        }
+    }
+
+    /**
+     * Malformed blocks end where the next block starts at the beginning of a line
+     */
+    private recoveryPoint(at: number): number {
+        const pattern = /^[ \t]*@/gm;
+        pattern.lastIndex = at + 1;
+        const match = pattern.exec(this.source);
+        if (!match) {
+            return this.source.length;
+        }
+        return match.index;
+    }
+
+    private parseField(): BibField | null {
+        const start = this.pos;
+        const rawName = this.readIdentifier();
+        if (!rawName) {
+            return null;
+        }
+        this.skipWhitespace();
+        if (this.source[this.pos] !== '=') {
+            throw new BibParseError(`Expected "=" after "${rawName}"`, this.pos);
+        }
+        this.pos++;
+        this.skipWhitespace();
+
+        const valueStart = this.pos;
+        const { parts, value } = this.parseValue();
+        const valueEnd = this.pos;
+
+        return {
+            name: rawName.toLowerCase(),
+            rawName,
+            parts,
+            value,
+            start,
+            end: valueEnd,
+            valueStart,
+            valueEnd
+        };
+    }
+
+    /**
+     * Parse `operand (# operand)*`
+     */
+    private parseValue(): { parts: BibValuePart[]; value: string } {
+        const parts: BibValuePart[] = [];
+
+        while (true) {
+            parts.push(this.parseOperand());
+
+            const afterOperand = this.pos;
+            this.skipWhitespace();
+            if (this.source[this.pos] === '#') {
+                this.pos++;
+                this.skipWhitespace();
+                continue;
+            }
+            this.pos = afterOperand;
+            break;
+        }
+
+        const value = parts.map(part => {
+            if (part.kind === 'macro') {
+                return this.strings.get(part.name.toLowerCase()) ?? part.name;
+            }
+            return part.text;
+        }).join('');
+
+        return { parts, value: value.trim() };
+    }
+
+    private parseOperand(): BibValuePart {
+        const ch = this.source[this.pos];
+
+        if (ch === '{') {
+            const end = this.findBalancedEnd(this.pos + 1);
+            if (end === -1) {
+                throw new BibParseError('Unbalanced braces in value', this.pos);
+            }
+            const text = this.source.slice(this.pos + 1, end);
+            this.pos = end + 1;
+            return { kind: 'braced', text };
+        }
+
+        if (ch === '"') {
+            let depth = 0;
+            let i = this.pos + 1;
+            for (; i < this.source.length; i++) {
+                const c = this.source[i];
+                if (c === '{') {
+                    depth++;
+                } else if (c === '}') {
+                    depth--;
+                } else if (c === '"' && depth === 0) {
+                    break;
+                }
+            }
+            if (i >= this.source.length) {
+                throw new BibParseError('Unterminated quoted value', this.pos);
+            }
+            const text = this.source.slice(this.pos + 1, i);
+            this.pos = i + 1;
+            return { kind: 'quoted', text };
+        }
+
+        const numberMatch = /^[0-9]+/.exec(this.source.slice(this.pos, this.pos + 32));
+        if (numberMatch) {
+            this.pos += numberMatch[0].length;
+            return { kind: 'number', text: numberMatch[0] };
+        }
+
+        const name = this.readIdentifier();
+        if (name) {
+            return { kind: 'macro', name };
+        }
+
+        throw new BibParseError('Expected value', this.pos);
+    }
+
+    /**
+     * Find the `}` closing a brace group whose content starts at `from`
+     */
+    private findBalancedEnd(from: number): number {
+        let depth = 1;
+        for (let i = from; i < this.source.length; i++) {
+            const c = this.source[i];
+            if (c === '{') {
+                depth++;
+            } else if (c === '}') {
+                depth--;
+                if (depth === 0) {
+                    return i;
+                }
+            }
+        }
+        return -1;
+    }
+
+    private expectClose(close: string): void {
+        this.skipWhitespace();
+        if (this.source[this.pos] !== close) {
+            throw new BibParseError(`Expected "${close}"`, this.pos);
+        }
+        this.pos++;
+    }
+
+    private readIdentifier(): string {
+        const start = this.pos;
+        while (this.pos < this.source.length && IDENTIFIER_PATTERN.test(this.source[this.pos])) {
+            this.pos++;
+        }
+        return this.source.slice(start, this.pos);
+    }
+
+    private skipWhitespace(): void {
+        while (this.pos < this.source.length && /\s/.test(this.source[this.pos])) {
+            this.pos++;
+        }
+    }
+
+    private lineEnd(from: number): number {
+        const newline = this.source.indexOf('\n', from);
+        return newline === -1 ? this.source.length : newline + 1;
+    }
+}
@@ -0,0 +1,266 @@
+/**
+ * BibTeX Writer - Surgical edits to .bib source that leave every byte
+ * outside the edited entries untouched
+ */
+
+import { BibTeXParser, BibEntry } from './bibtexParser';
+
+/**
+ * Replace source[start, end) with newText
+ */
+export interface BibTextEdit {
+    start: number;
+    end: number;
+    newText: string;
+}
+
+/**
+ * Any located block, e.g. a parsed entry
+ */
+export interface BibSpan {
+    start: number;
+    end: number;
+}
+
+export type BibFileEncoding = 'utf8' | 'utf8bom' | 'utf16le' | 'utf16be' | 'latin1';
+
+/**
+ * Decoded .bib file content; the BOM is not part of `text`
+ */
+export interface DecodedBibFile {
+    text: string;
+    encoding: BibFileEncoding;
+}
+
+export class BibTeXWriter {
+    private readonly edits: BibTextEdit[] = [];
+    private readonly eol: string;
+
+    constructor(private readonly source: string) {
+        this.eol = BibTeXWriter.detectEol(source);
+    }
+
+    /**
+     * Decode file bytes, remembering BOM and encoding so they survive a rewrite
+     */
+    static decode(bytes: Uint8Array): DecodedBibFile {
+        const buffer = Buffer.from(bytes);
+
+        if (buffer.length >= 3 && buffer[0] === 0xEF && buffer[1] === 0xBB && buffer[2] === 0xBF) {
+            return { text: buffer.subarray(3).toString('utf8'), encoding: 'utf8bom' };
+        }
+        if (buffer.length >= 2 && buffer[0] === 0xFF && buffer[1] === 0xFE) {
+            return { text: buffer.subarray(2).toString('utf16le'), encoding: 'utf16le' };
+        }
+        if (buffer.length >= 2 && buffer[0] === 0xFE && buffer[1] === 0xFF) {
+            return { text: BibTeXWriter.swapBytes(buffer.subarray(2)).toString('utf16le'), encoding: 'utf16be' };
+        }
+
+        const text = buffer.toString('utf8');
+        // Invalid UTF-8 decodes to U+FFFD; such files are almost always Latin-1
+        if (text.includes('\uFFFD') && !buffer.includes(Buffer.from('\uFFFD', 'utf8'))) {
+            return { text: buffer.toString('latin1'), encoding: 'latin1' };
+        }
+
+        return { text, encoding: 'utf8' };
+    }
+
+    /**
+     * Encode text back into the encoding it was read with
+     */
+    static encode(text: string, encoding: BibFileEncoding): Uint8Array {
+        switch (encoding) {
+            case 'utf8bom':
+                return Buffer.concat([Buffer.from([0xEF, 0xBB, 0xBF]), Buffer.from(text, 'utf8')]);
+            case 'utf16le':
+                return Buffer.concat([Buffer.from([0xFF, 0xFE]), Buffer.from(text, 'utf16le')]);
+            case 'utf16be':
+                return Buffer.concat([Buffer.from([0xFE, 0xFF]), BibTeXWriter.swapBytes(Buffer.from(text, 'utf16le'))]);
+            case 'latin1':
+                return Buffer.from(text, 'latin1');
+            default:
+                return Buffer.from(text, 'utf8');
+        }
+    }
+
+    private static swapBytes(buffer: Buffer): Buffer {
+        const swapped = Buffer.from(buffer.subarray(0, buffer.length - (buffer.length % 2)));
+        return swapped.swap16();
+    }
+
+    /**
+     * Use the first line ending found in the file, defaulting to \n
+     */
+    private static detectEol(source: string): string {
+        const newline = source.indexOf('\n');
+        if (newline > 0 && source[newline - 1] === '\r') {
+            return '\r\n';
+        }
+        return '\n';
+    }
+
+    /**
+     * Entries of the source being edited
+     */
+    getEntries(): BibEntry[] {
+        return BibTeXParser.parse(this.source).entries;
+    }
+
+    /**
+     * Replace an entry's text in place
+     */
+    replaceEntry(entry: BibSpan, newText: string): void {
+        this.addEdit({
+            start: entry.start,
+            end: entry.end,
+            newText: this.normalize(newText)
+        });
+    }
+
+    /**
+     * Delete an entry together with its line and one separating blank line
+     */
+    deleteEntry(entry: BibSpan): void {
+        this.deleteEntries([entry]);
+    }
+
+    /**
+     * Delete several entries; neighbouring deletions are merged into one edit
+     */
+    deleteEntries(entries: BibSpan[]): void {
+        const ranges = entries
+            .map(entry => this.getDeletionRange(entry))
+            .sort((a, b) => a.start - b.start);
+
+        const merged: BibSpan[] = [];
+        for (const range of ranges) {
+            const last = merged[merged.length - 1];
+            if (last && range.start <= last.end) {
+                last.end = Math.max(last.end, range.end);
+            } else {
+                merged.push({ ...range });
+            }
+        }
+
+        for (const range of merged) {
+            // At the end of the file, drop the blank line before the deleted block instead
+            if (range.end === this.source.length && range.start > 0 && this.isBlankLineBefore(range.start)) {
+                range.start = this.source.lastIndexOf('\n', range.start - 2) + 1;
+            }
+            this.addEdit({ start: range.start, end: range.end, newText: '' });
+        }
+    }
+
+    /**
+     * Range covering an entry, its line and the blank line after it
+     */
+    private getDeletionRange(entry: BibSpan): BibSpan {
+        let start = entry.start;
+        let end = entry.end;
+
+        // Take the indentation before the entry if it starts its line
+        let lineStart = start;
+        while (lineStart > 0 && (this.source[lineStart - 1] === ' ' || this.source[lineStart - 1] === '\t')) {
+            lineStart--;
+        }
+        const ownLine = lineStart === 0 || this.source[lineStart - 1] === '\n';
+        if (ownLine) {
+            start = lineStart;
+        }
+
+        // Take trailing spaces and the line break
+        let lineEnd = end;
+        while (lineEnd < this.source.length && (this.source[lineEnd] === ' ' || this.source[lineEnd] === '\t')) {
+            lineEnd++;
+        }
+        const breakLength = this.lineBreakLength(lineEnd);
+        if (ownLine && (breakLength > 0 || lineEnd === this.source.length)) {
+            end = lineEnd + breakLength;
+
+            // Collapse the blank line that separated this entry from the previous block
+            const followingBreak = this.lineBreakLength(end);
+            if (followingBreak > 0 && (start === 0 || this.isBlankLineBefore(start))) {
+                end += followingBreak;
+            }
+        }
+
+        return { start, end };
+    }
+
+    /**
+     * Append entries at the end of the file, separated by blank lines
+     */
+    insertEntries(entries: string[]): void {
+        if (entries.length === 0) {
+            return;
+        }
+
+        const body = entries.map(entry => this.normalize(entry)).join(this.eol + this.eol) + this.eol;
+
+        let prefix = '';
+        if (this.source.length > 0) {
+            if (!this.source.endsWith('\n')) {
+                prefix = this.eol + this.eol;
+            } else if (!/\n[ \t]*\r?\n$/.test(this.source) && this.source.trim().length > 0) {
+                prefix = this.eol;
+            }
+        }
+
+        this.addEdit({
+            start: this.source.length,
+            end: this.source.length,
+            newText: prefix + body
+        });
+    }
+
+    /**
+     * Edits collected so far, ordered by position
+     */
+    getEdits(): BibTextEdit[] {
+        return [...this.edits].sort((a, b) => a.start - b.start || a.end - b.end);
+    }
+
+    /**
+     * Source with all edits applied
+     */
+    toString(): string {
+        let result = '';
+        let cursor = 0;
+        for (const edit of this.getEdits()) {
+            result += this.source.slice(cursor, edit.start) + edit.newText;
+            cursor = edit.end;
+        }
+        return result + this.source.slice(cursor);
+    }
+
+    private addEdit(edit: BibTextEdit): void {
+        const overlapping = this.edits.some(existing =>
+            edit.start < existing.end && existing.start < edit.end);
+        if (overlapping) {
+            throw new Error(`Overlapping .bib edits at offset ${edit.start}`);
+        }
+        this.edits.push(edit);
+    }
+
+    /**
+     * Trim surrounding whitespace and convert line endings to the file's style
+     */
+    private normalize(text: string): string {
+        return text.trim().replace(/\r?\n/g, this.eol);
+    }
+
+    private lineBreakLength(offset: number): number {
+        if (this.source.startsWith('\r\n', offset)) {
+            return 2;
+        }
+        return this.source[offset] === '\n' ? 1 : 0;
+    }
+
+    /**
+     * Whether the line before `lineStart` is empty or whitespace only
+     */
+    private isBlankLineBefore(lineStart: number): boolean {
+        const before = this.source.slice(0, lineStart);
+        return /(^|\n)[ \t]*\r?\n$/.test(before);
+    }
+}
@@ -0,0 +1,116 @@
+/**
+ * Citation Command Resolver - Choose \cite, \citep, \parencite, ... from
+ * settings or from the packages loaded in the root document's preamble
+ */
+
+import * as vscode from 'vscode';
+import { ConfigurationManager } from './configurationManager';
+import { BibliographyResolver } from './bibliographyResolver';
+import { getCitationFormatter } from './citationFormatter';
+import { CitationCommand, CitationStyle } from './types';
+
+/**
+ * Citation commands offered by the extension, in quick pick order
+ */
+export const CITATION_COMMANDS: ReadonlyArray<{ command: CitationCommand; description: string }> = [
+    { command: 'cite', description: 'Standard LaTeX' },
+    { command: 'citep', description: 'natbib, parenthetical' },
+    { command: 'citet', description: 'natbib, textual' },
+    { command: 'parencite', description: 'biblatex, parenthetical' },
+    { command: 'textcite', description: 'biblatex, textual' },
+    { command: 'autocite', description: 'biblatex, style-dependent' },
+    { command: 'footcite', description: 'biblatex, footnote' },
+    { command: 'nocite', description: 'Add to bibliography without citing' }
+];
+
+export class CitationCommandResolver {
+    constructor(
+        private configManager: ConfigurationManager,
+        private bibliographyResolver: BibliographyResolver
+    ) {}
+
+    /**
+     * Resolve the citation command for a document: the configured command,
+     * or the one matching the bibliography package when set to "auto".
+     * Languages other than LaTeX get their formatter's default form.
+     */
+    async resolve(document: vscode.TextDocument): Promise<CitationStyle> {
+        const formatter = getCitationFormatter(document);
+        if (formatter) {
+            return formatter.forms[0].form;
+        }
+
+        const configured = this.configManager.getCitationCommand(document.uri);
+        if (configured !== 'auto') {
+            return configured;
+        }
+
+        const root = await this.bibliographyResolver.getRoot(document);
+        return CitationCommandResolver.detectFromPreamble(root.text);
+    }
+
+    /**
+     * Detect the citation command from \usepackage lines in the preamble
+     */
+    static detectFromPreamble(text: string): CitationCommand {
+        const packages = CitationCommandResolver.getLoadedPackages(text);
+
+        if (packages.has('biblatex')) {
+            return 'autocite';
+        }
+        if (packages.has('natbib')) {
+            return 'citep';
+        }
+        return 'cite';
+    }
+
+    /**
+     * Collect package names from \usepackage / \RequirePackage in the preamble
+     */
+    static getLoadedPackages(text: string): Set<string> {
+        const beginDocument = text.indexOf('\\begin{document}');
+        const preamble = (beginDocument === -1 ? text : text.slice(0, beginDocument))
+            // Drop comments, keeping escaped \%
+            .replace(/(^|[^\\])%.*$/gm, '$1');
+
+        const packages = new Set<string>();
+        const packagePattern = /\\(?:usepackage|RequirePackage)\s*(?:\[[^\]]*\])?\s*\{([^}]*)\}/g;
+        let match;
+
+        while ((match = packagePattern.exec(preamble)) !== null) {
+            for (const name of match[1].split(',')) {
+                if (name.trim()) {
+                    packages.add(name.trim());
+                }
+            }
+        }
+
+        return packages;
+    }
+
+    /**
+     * Let the user pick a citation command, preselecting the default.
+     * Documents of other languages pick among their formatter's forms.
+     */
+    async pickCommand(defaultStyle: CitationStyle, document?: vscode.TextDocument): Promise<CitationStyle | undefined> {
+        const formatter = document ? getCitationFormatter(document) : undefined;
+        const choices: Array<{ style: CitationStyle; label: string; description: string }> = formatter
+            ? formatter.forms.map(({ form, label, description }) => ({ style: form, label, description }))
+            : CITATION_COMMANDS.map(({ command, description }) => ({ style: command, label: `\\${command}`, description }));
+
+        const items = choices.map(({ style, label, description }) => ({
+            label,
+            description: style === defaultStyle ? `${description} (default)` : description,
+            style
+        }));
+
+        // Put the default first so Enter accepts it
+        items.sort((a, b) => Number(b.style === defaultStyle) - Number(a.style === defaultStyle));
+
+        const selected = await vscode.window.showQuickPick(items, {
+            placeHolder: formatter ? 'Select citation form' : 'Select citation command'
+        });
+
+        return selected?.style;
+    }
+}
@@ -0,0 +1,300 @@
+/**
+ * Citation Diagnostics - Warn about cited keys missing from the project's
+ * .bib files, with quick fixes that fetch them from Zotero
+ */
+
+import * as vscode from 'vscode';
+import { BibliographyIndex } from './bibliographyIndex';
+import { BibTeXFileManager } from './bibtexFileManager';
+import { ConfigurationManager } from './configurationManager';
+import { CiteCommandParser } from './citeCommandParser';
+import { FETCH_CITATION_COMMAND } from './citationHoverProvider';
+
+/**
+ * Command fetching every missing citation of the workspace
+ */
+export const FETCH_ALL_MISSING_COMMAND = 'zotero-cite.fetchAllMissingCitations';
+
+/**
+ * Command removing uncited entries from a .bib file
+ */
+export const PRUNE_UNCITED_COMMAND = 'zotero-cite.pruneUncitedEntries';
+
+/**
+ * Diagnostic codes, also used to offer quick fixes
+ */
+const MISSING_CODE = 'missing-citation';
+const UNKNOWN_CODE = 'unknown-citation';
+const UNCITED_CODE = 'uncited-entry';
+
+/**
+ * Delay after the last keystroke before a document is checked again
+ */
+const UPDATE_DELAY = 500;
+
+export class CitationDiagnostics implements vscode.CodeActionProvider, vscode.Disposable {
+    static readonly providedCodeActionKinds = [vscode.CodeActionKind.QuickFix];
+
+    private diagnostics = vscode.languages.createDiagnosticCollection('zotero-cite');
+    private disposables: vscode.Disposable[] = [this.diagnostics];
+    private pendingUpdates = new Map<string, NodeJS.Timeout>();
+    /** Keys Zotero didn't know the last time they were fetched */
+    private unknownKeys = new Set<string>();
+
+    constructor(
+        private bibliographyIndex: BibliographyIndex,
+        private bibFileManager: BibTeXFileManager,
+        private configManager: ConfigurationManager
+    ) {
+        this.disposables.push(
+            vscode.workspace.onDidOpenTextDocument(document => this.scheduleUpdate(document, 0)),
+            vscode.workspace.onDidChangeTextDocument(event => {
+                if (this.isBibDocument(event.document)) {
+                    this.bibFileChanged(event.document.uri);
+                    return;
+                }
+                if (this.bibFileManager.isTeXDocument(event.document)) {
+                    this.bibliographyIndex.invalidateCitations();
+                }
+                this.scheduleUpdate(event.document, UPDATE_DELAY);
+            }),
+            vscode.workspace.onDidCloseTextDocument(document => this.diagnostics.delete(document.uri)),
+            // Citations of saved .tex files decide which .bib entries are uncited
+            vscode.workspace.onDidSaveTextDocument(document => {
+                if (this.bibFileManager.isTeXDocument(document)) {
+                    this.updateBibDocuments();
+                }
+            }),
+            vscode.workspace.onDidChangeConfiguration(event => {
+                if (event.affectsConfiguration('zotero-cite.uncitedEntryHints')) {
+                    this.updateAll();
+                }
+            })
+        );
+
+        // .bib and .tex files changed outside the editor
+        const bibWatcher = vscode.workspace.createFileSystemWatcher('**/*.bib');
+        const texWatcher = vscode.workspace.createFileSystemWatcher('**/*.tex');
+        const texFileChanged = () => {
+            this.bibliographyIndex.invalidateCitations();
+            this.updateBibDocuments();
+        };
+        this.disposables.push(
+            bibWatcher,
+            bibWatcher.onDidChange(uri => this.bibFileChanged(uri)),
+            bibWatcher.onDidCreate(uri => this.bibFileChanged(uri)),
+            bibWatcher.onDidDelete(uri => this.bibFileChanged(uri)),
+            texWatcher,
+            texWatcher.onDidChange(texFileChanged),
+            texWatcher.onDidCreate(texFileChanged),
+            texWatcher.onDidDelete(texFileChanged)
+        );
+
+        this.updateAll();
+    }
+
+    /**
+     * Remember which keys Zotero doesn't know, or forgot them once fetched
+     */
+    setUnknownKeys(unknown: string[], fetched: string[]): void {
+        unknown.forEach(key => this.unknownKeys.add(key));
+        fetched.forEach(key => this.unknownKeys.delete(key));
+        this.updateAll();
+    }
+
+    /**
+     * Check all open .tex and .bib documents again, e.g. after a .bib file changed
+     */
+    updateAll(): void {
+        for (const document of vscode.workspace.textDocuments) {
+            this.scheduleUpdate(document, UPDATE_DELAY);
+        }
+    }
+
+    /**
+     * Cited keys of a document that its project's .bib files don't define
+     */
+    async findMissingKeys(document: vscode.TextDocument): Promise<{ key: string; range: vscode.Range }[]> {
+        // Without any bibliography there is nothing to compare against
+        if ((await this.bibFileManager.getProjectBibFiles(document)).length === 0) {
+            return [];
+        }
+
+        const entries = await this.bibliographyIndex.getEntries(document);
+        const missing: { key: string; range: vscode.Range }[] = [];
+
+        for (const command of CiteCommandParser.findAll(document.getText())) {
+            for (const group of command.keyGroups) {
+                for (const citeKey of group.keys) {
+                    // \nocite{*} and macro parameters such as #1 aren't keys
+                    if (citeKey.key === '*' || citeKey.key.startsWith('#') || entries.has(citeKey.key)) {
+                        continue;
+                    }
+                    missing.push({
+                        key: citeKey.key,
+                        range: new vscode.Range(document.positionAt(citeKey.start), document.positionAt(citeKey.end))
+                    });
+                }
+            }
+        }
+
+        return missing;
+    }
+
+    provideCodeActions(
+        document: vscode.TextDocument,
+        range: vscode.Range | vscode.Selection,
+        context: vscode.CodeActionContext
+    ): vscode.CodeAction[] {
+        const actions: vscode.CodeAction[] = [];
+
+        if (context.diagnostics.some(diagnostic => diagnostic.code === UNCITED_CODE)) {
+            const prune = new vscode.CodeAction('Remove uncited entries...', vscode.CodeActionKind.QuickFix);
+            prune.command = { title: 'Remove uncited entries', command: PRUNE_UNCITED_COMMAND, arguments: [document.uri] };
+            prune.diagnostics = context.diagnostics.filter(diagnostic => diagnostic.code === UNCITED_CODE);
+            actions.push(prune);
+        }
+
+        for (const diagnostic of context.diagnostics) {
+            if (diagnostic.code !== MISSING_CODE && diagnostic.code !== UNKNOWN_CODE) {
+                continue;
+            }
+
+            const key = document.getText(diagnostic.range);
+            const action = new vscode.CodeAction(`Fetch "${key}" from Zotero`, vscode.CodeActionKind.QuickFix);
+            action.command = {
+                title: 'Fetch from Zotero',
+                command: FETCH_CITATION_COMMAND,
+                arguments: [document.uri.toString(), key]
+            };
+            action.diagnostics = [diagnostic];
+            action.isPreferred = diagnostic.code === MISSING_CODE;
+            actions.push(action);
+        }
+
+        if (actions.some(action => action.command?.command === FETCH_CITATION_COMMAND)) {
+            const fetchAll = new vscode.CodeAction('Fetch all missing citations from Zotero', vscode.CodeActionKind.QuickFix);
+            fetchAll.command = { title: 'Fetch all missing citations', command: FETCH_ALL_MISSING_COMMAND };
+            actions.push(fetchAll);
+        }
+
+        return actions;
+    }
+
+    dispose(): void {
+        this.pendingUpdates.forEach(timeout => clearTimeout(timeout));
+        this.pendingUpdates.clear();
+        this.disposables.forEach(disposable => disposable.dispose());
+    }
+
+    private scheduleUpdate(document: vscode.TextDocument, delay: number): void {
+        const isTeX = this.bibFileManager.isTeXDocument(document);
+        if ((!isTeX && !this.isBibDocument(document)) || document.uri.scheme === 'git') {
+            return;
+        }
+
+        this.schedule(document.uri.toString(), delay, () => isTeX ? this.update(document) : this.updateBib(document));
+    }
+
+    /**
+     * Run an update after `delay`, replacing a pending one with the same id
+     */
+    private schedule(id: string, delay: number, update: () => Promise<void>): void {
+        const pending = this.pendingUpdates.get(id);
+        if (pending) {
+            clearTimeout(pending);
+        }
+
+        this.pendingUpdates.set(id, setTimeout(() => {
+            this.pendingUpdates.delete(id);
+            update().catch(error => console.error(`Failed to check citations: ${error}`));
+        }, delay));
+    }
+
+    /**
+     * Check a changed .bib file, if open, and the open .tex documents
+     * whose projects use it
+     */
+    private bibFileChanged(bibFileUri: vscode.Uri): void {
+        const id = bibFileUri.toString();
+        const document = vscode.workspace.textDocuments.find(doc => doc.uri.toString() === id);
+        if (document) {
+            this.scheduleUpdate(document, UPDATE_DELAY);
+        }
+
+        this.schedule(`citing:${id}`, UPDATE_DELAY, async () => {
+            for (const texDocument of vscode.workspace.textDocuments) {
+                if (this.bibFileManager.isTeXDocument(texDocument) && texDocument.uri.scheme !== 'git' &&
+                    (await this.bibFileManager.getProjectBibFiles(texDocument)).some(uri => uri.toString() === id)) {
+                    await this.update(texDocument);
+                }
+            }
+        });
+    }
+
+    /**
+     * Check the uncited entries of open .bib documents, after .tex files changed
+     */
+    private updateBibDocuments(): void {
+        vscode.workspace.textDocuments
+            .filter(document => this.isBibDocument(document))
+            .forEach(document => this.scheduleUpdate(document, UPDATE_DELAY));
+    }
+
+    private async update(document: vscode.TextDocument): Promise<void> {
+        const version = document.version;
+        const missing = await this.findMissingKeys(document);
+
+        // Skip results for text that has changed or closed meanwhile
+        if (document.isClosed || document.version !== version) {
+            return;
+        }
+
+        this.diagnostics.set(document.uri, missing.map(({ key, range }) => {
+            const unknown = this.unknownKeys.has(key);
+            const diagnostic = new vscode.Diagnostic(
+                range,
+                unknown
+                    ? `Citation key "${key}" is not in the project's .bib files, and Zotero doesn't know it either`
+                    : `Citation key "${key}" is not in the project's .bib files`,
+                vscode.DiagnosticSeverity.Warning
+            );
+            diagnostic.code = unknown ? UNKNOWN_CODE : MISSING_CODE;
+            diagnostic.source = 'Zotero Cite';
+            return diagnostic;
+        }));
+    }
+
+    /**
+     * Hint at .bib entries no .tex file cites, when enabled
+     */
+    private async updateBib(document: vscode.TextDocument): Promise<void> {
+        if (!this.configManager.isUncitedEntryHintsEnabled(document.uri)) {
+            this.diagnostics.delete(document.uri);
+            return;
+        }
+
+        const version = document.version;
+        const { uncited } = await this.bibliographyIndex.findUncitedEntries(document.uri);
+
+        if (document.isClosed || document.version !== version) {
+            return;
+        }
+
+        this.diagnostics.set(document.uri, uncited.map(({ entry, keyRange }) => {
+            const diagnostic = new vscode.Diagnostic(
+                keyRange,
+                `Entry "${entry.key}" is not cited in the workspace`,
+                vscode.DiagnosticSeverity.Hint
+            );
+            diagnostic.code = UNCITED_CODE;
+            diagnostic.source = 'Zotero Cite';
+            diagnostic.tags = [vscode.DiagnosticTag.Unnecessary];
+            return diagnostic;
+        }));
+    }
+
+    private isBibDocument(document: vscode.TextDocument): boolean {
+        return document.languageId === 'bibtex' || document.fileName.endsWith('.bib');
+    }
+}
@@ -0,0 +1,126 @@
+/**
+ * Citation Formatter - Citation syntax of the markup languages other than
+ * LaTeX, chosen by the document's languageId
+ */
+
+import { CitationForm, CitationStyle, PickedCitation } from './types';
+import { PandocCitationFormatter } from './pandocCitationFormatter';
+import { TypstCitationFormatter } from './typstCitationFormatter';
+import { AsciidocCitationFormatter } from './asciidocCitationFormatter';
+import { OrgCitationFormatter } from './orgCitationFormatter';
+
+/**
+ * Abbreviations for CSL locator labels, as used in postnotes
+ */
+export const LOCATOR_LABELS: { [label: string]: string } = {
+    page: 'p.',
+    chapter: 'chap.',
+    section: 'sec.',
+    paragraph: 'para.',
+    figure: 'fig.',
+    table: 'tab.',
+    volume: 'vol.',
+    line: 'l.',
+    note: 'n.',
+    book: 'bk.',
+    column: 'col.',
+    verse: 'v.',
+    part: 'pt.',
+    issue: 'no.'
+};
+
+const CITATION_FORMS: ReadonlyArray<CitationForm> = ['parenthetical', 'in-text', 'suppress-author'];
+
+/**
+ * A citation form as offered when choosing how to cite
+ */
+export interface CitationFormOption {
+    form: CitationForm;
+    /** Example of the syntax, e.g. `[@key]` */
+    label: string;
+    description: string;
+}
+
+/**
+ * Text replacing `start`–`end` of a document
+ */
+export interface CitationEdit {
+    start: number;
+    end: number;
+    newText: string;
+    /** Offset of the cursor after the edit */
+    cursor: number;
+}
+
+export interface CitationFormatter {
+    /** Languages written with this syntax */
+    readonly languageIds: ReadonlyArray<string>;
+    /** File extensions, for documents without one of the languages */
+    readonly extensions: ReadonlyArray<string>;
+    /** Trigger as typed, e.g. `@zoteroCite` */
+    readonly trigger: string;
+    /** Trigger before the cursor; group 1 is the `*` asking for the form */
+    readonly triggerPattern: RegExp;
+    /** Forms to choose from, the default first */
+    readonly forms: ReadonlyArray<CitationFormOption>;
+    /** Format of .yml/.yaml bibliographies that are still empty; CSL-YAML if not set */
+    readonly yamlFormat?: 'hayagriva';
+
+    /**
+     * Cite in place of the trigger (or selection) at `start`–`end`, merging
+     * into a citation around it
+     */
+    cite(text: string, start: number, end: number, citations: PickedCitation[], form: CitationForm): CitationEdit;
+
+    /**
+     * Bibliography files declared in the document, as written
+     */
+    findBibliographies(text: string): string[];
+}
+
+let formatters: CitationFormatter[] | undefined;
+
+/**
+ * Formatters of all supported languages other than LaTeX
+ */
+export function getCitationFormatters(): ReadonlyArray<CitationFormatter> {
+    formatters ??= [
+        new PandocCitationFormatter(),
+        new TypstCitationFormatter(),
+        new AsciidocCitationFormatter(),
+        new OrgCitationFormatter()
+    ];
+    return formatters;
+}
+
+/**
+ * The formatter for a document, undefined for LaTeX and unsupported documents
+ */
+export function getCitationFormatter(document: { languageId: string; fileName: string }): CitationFormatter | undefined {
+    const fileName = document.fileName.toLowerCase();
+    return getCitationFormatters().find(formatter => formatter.languageIds.includes(document.languageId))
+        ?? getCitationFormatters().find(formatter => formatter.extensions.some(extension => fileName.endsWith(extension)));
+}
+
+export function isCitationForm(style: CitationStyle): style is CitationForm {
+    return (CITATION_FORMS as ReadonlyArray<string>).includes(style);
+}
+
+/**
+ * Locator and suffix of a picked citation as one postnote, e.g. "pp. 3-5, passim"
+ * @param separator Between locator label and number
+ */
+export function formatPostnote(citation: PickedCitation, separator: string = ' '): string {
+    let locator = '';
+    if (citation.locator) {
+        const label = citation.label || 'page';
+        let abbreviation = LOCATOR_LABELS[label] ?? label;
+        if (label === 'page' && /[-–,]/.test(citation.locator)) {
+            abbreviation = 'pp.';
+        }
+        locator = `${abbreviation}${separator}${citation.locator}`;
+    }
+
+    const suffix = (citation.suffix || '').trim();
+    return locator && suffix ? `${locator}${/^[,;.]/.test(suffix) ? '' : ' '}${suffix}` : locator || suffix;
+}
@@ -0,0 +1,93 @@
+/**
+ * Citation Hover Provider - Show the bibliography entry of the cite key
+ * under the cursor
+ */
+
+import * as vscode from 'vscode';
+import * as path from 'path';
+import { BibliographyIndex } from './bibliographyIndex';
+import { BibEntryFormatter } from './bibEntryFormatter';
+import { BibTeXParser } from './bibtexParser';
+import { CiteCommandParser, CiteKey } from './citeCommandParser';
+
+/**
+ * Command run by the "Fetch from Zotero" link of a missing key
+ */
+export const FETCH_CITATION_COMMAND = 'zotero-cite.fetchCitation';
+
+export class CitationHoverProvider implements vscode.HoverProvider {
+    constructor(private bibliographyIndex: BibliographyIndex) {}
+
+    async provideHover(
+        document: vscode.TextDocument,
+        position: vscode.Position,
+        token: vscode.CancellationToken
+    ): Promise<vscode.Hover | undefined> {
+        const citeKey = CitationHoverProvider.findKeyAt(document, position);
+        if (!citeKey) {
+            return undefined;
+        }
+
+        const range = new vscode.Range(document.positionAt(citeKey.start), document.positionAt(citeKey.end));
+        const located = await this.bibliographyIndex.findEntry(document, citeKey.key);
+        if (token.isCancellationRequested) {
+            return undefined;
+        }
+
+        const markdown = new vscode.MarkdownString();
+
+        if (!located) {
+            const args = encodeURIComponent(JSON.stringify([document.uri.toString(), citeKey.key]));
+            markdown.isTrusted = { enabledCommands: [FETCH_CITATION_COMMAND] };
+            markdown.appendMarkdown(`$(warning) \`${citeKey.key}\` is not in the project's .bib files\n\n`);
+            markdown.appendMarkdown(`[$(cloud-download) Fetch from Zotero](command:${FETCH_CITATION_COMMAND}?${args})`);
+            markdown.supportThemeIcons = true;
+            return new vscode.Hover(markdown, range);
+        }
+
+        const { entry, uri, keyRange } = located;
+        const title = BibEntryFormatter.getTitle(entry);
+        const venue = BibEntryFormatter.getVenue(entry);
+        const doi = BibTeXParser.getField(entry, 'doi');
+        const url = BibTeXParser.getField(entry, 'url');
+
+        markdown.appendMarkdown(`**${this.escape(BibEntryFormatter.getShortReference(entry))}**\n\n`);
+        if (title) {
+            markdown.appendMarkdown(`${this.escape(title)}\n\n`);
+        }
+        if (venue) {
+            markdown.appendMarkdown(`*${this.escape(venue)}*\n\n`);
+        }
+
+        const links: string[] = [];
+        if (doi) {
+            const doiUrl = /^https?:\/\//i.test(doi) ? doi : `https://doi.org/${doi}`;
+            links.push(`[DOI: ${this.escape(doi)}](${encodeURI(doiUrl)})`);
+        }
+        if (url) {
+            links.push(`[${this.escape(url)}](${encodeURI(url)})`);
+        }
+        if (links.length > 0) {
+            markdown.appendMarkdown(`${links.join(' · ')}\n\n`);
+        }
+
+        const line = keyRange.start.line + 1;
+        const location = uri.with({ fragment: `L${line}` });
+        markdown.appendMarkdown(`\`@${entry.type}\` in [${this.escape(path.basename(uri.fsPath))}:${line}](${location.toString()})`);
+
+        return new vscode.Hover(markdown, range);
+    }
+
+    /**
+     * The citation key under a position, if it is inside a cite command
+     */
+    static findKeyAt(document: vscode.TextDocument, position: vscode.Position): CiteKey | undefined {
+        const offset = document.offsetAt(position);
+        const found = CiteCommandParser.findAt(document.getText(), offset);
+        return found?.group.keys.find(key => offset >= key.start && offset <= key.end);
+    }
+
+    private escape(text: string): string {
+        return text.replace(/[\\`*_{}\[\]()#+!<>|]/g, '\\$&');
+    }
+}
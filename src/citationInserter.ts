@@ -1,148 +1,246 @@
 /**
- * Citation Inserter for replacing \zoteroCite with \cite{keys}
+ * Citation Inserter for replacing \zoteroCite with \cite{keys} (or \citep, \parencite, ...),
+ * or the trigger of another language with its citation syntax
  */
 
 import * as vscode from 'vscode';
+import { EditTransaction } from './editTransaction';
+import { CiteCommandParser } from './citeCommandParser';
+import { CitationFormatter, formatPostnote, getCitationFormatter, isCitationForm } from './citationFormatter';
+import { CitationCommand, CitationForm, CitationStyle, PickedCitation } from './types';
 
 export class CitationInserter {
     /**
-     * Check if position is inside a \cite{} command
+     * Check if position is inside the key list of a citation command such as
+     * \cite[p.~4]{a}, \citet*{a}, \cites{a}{b} or a key list spanning lines
      */
     private isInsideCiteCommand(
         document: vscode.TextDocument,
         position: vscode.Position
-    ): { inside: boolean; range?: vscode.Range; existingKeys?: string[]; fullRange?: vscode.Range } {
-        const line = document.lineAt(position.line).text;
-        
-        // Find all \cite{...} patterns in the line
-        const citePattern = /\\cite\{([^}]*)\}/g;
-        let match;
-        
-        while ((match = citePattern.exec(line)) !== null) {
-            const startPos = match.index + 6; // After "\cite{"
-            const endPos = match.index + match[0].length - 1; // Before "}"
-            
-            // Check if cursor is inside this \cite{}
-            if (position.character >= startPos && position.character <= endPos) {
-                const existingContent = match[1].trim();
-                // Split by comma and filter out \zoteroCite and empty strings
-                const existingKeys = existingContent 
-                    ? existingContent.split(',')
-                        .map(k => k.trim())
-                        .filter(k => k && !k.includes('zoteroCite'))
-                    : [];
-                
-                return {
-                    inside: true,
-                    range: new vscode.Range(
-                        position.line,
-                        startPos,
-                        position.line,
-                        endPos
-                    ),
-                    fullRange: new vscode.Range(
-                        position.line,
-                        match.index,
-                        position.line,
-                        match.index + match[0].length
-                    ),
-                    existingKeys
-                };
-            }
+    ): { inside: boolean; range?: vscode.Range; existingKeys?: string[]; fullRange?: vscode.Range; separator?: string; leading?: string; trailing?: string } {
+        const text = document.getText();
+        const found = CiteCommandParser.findAt(text, document.offsetAt(position));
+
+        if (!found) {
+            return { inside: false };
         }
-        
-        return { inside: false };
+
+        const { command, group } = found;
+        const keys = group.keys;
+
+        // Filter out \zoteroCite itself
+        const existingKeys = keys
+            .map(k => k.key)
+            .filter(k => !k.includes('zoteroCite'));
+
+        return {
+            inside: true,
+            range: new vscode.Range(document.positionAt(group.start), document.positionAt(group.end)),
+            fullRange: new vscode.Range(document.positionAt(command.start), document.positionAt(command.end)),
+            existingKeys,
+            separator: group.separator,
+            // Whitespace around the key list, e.g. "{ a, b }"
+            leading: keys.length > 0 ? text.slice(group.start, keys[0].start) : '',
+            trailing: keys.length > 0 ? text.slice(keys[keys.length - 1].end, group.end) : ''
+        };
     }
 
     /**
-     * Format citation keys as \cite{key1,key2,...}
+     * biblatex commands that have a multicite form (\parencites, ...)
      */
-    private formatCitation(citationKeys: string[]): string {
-        if (citationKeys.length === 0) {
+    private static readonly BIBLATEX_COMMANDS: ReadonlySet<CitationCommand> =
+        new Set<CitationCommand>(['parencite', 'textcite', 'autocite', 'footcite']);
+
+    /**
+     * Format picked citations as \command[prenote][postnote]{key1,key2,...}.
+     * Items with differing notes become a biblatex multicite (\parencites[..]{a}[..]{b})
+     * or, for commands without one, separate commands.
+     */
+    formatCitation(citations: PickedCitation[], command: CitationCommand = 'cite'): string {
+        if (citations.length === 0) {
             return '';
         }
 
-        // Join keys with commas (no spaces)
-        const keysString = citationKeys.join(',');
-        return `\\cite{${keysString}}`;
+        const notes = citations.map(c => this.formatNotes(c, command));
+        const sameNotes = notes.every(n => n.pre === notes[0].pre && n.post === notes[0].post);
+        const sameSuppression = citations.every(c => !!c.suppressAuthor === !!citations[0].suppressAuthor);
+
+        if (sameNotes && sameSuppression) {
+            // Join keys with commas (no spaces)
+            const keysString = citations.map(c => c.key).join(',');
+            const name = this.commandName(command, !!citations[0].suppressAuthor);
+            return `\\${name}${this.formatOptionalArguments(notes[0])}{${keysString}}`;
+        }
+
+        if (CitationInserter.BIBLATEX_COMMANDS.has(command)) {
+            const groups = citations.map((c, i) => `${this.formatOptionalArguments(notes[i])}{${c.key}}`);
+            return `\\${command}s${groups.join('')}`;
+        }
+
+        return citations
+            .map((c, i) => `\\${this.commandName(command, !!c.suppressAuthor)}${this.formatOptionalArguments(notes[i])}{${c.key}}`)
+            .join(', ');
+    }
+
+    /**
+     * Build prenote and postnote from prefix, locator and suffix
+     */
+    private formatNotes(citation: PickedCitation, command: CitationCommand): { pre: string; post: string } {
+        let post = formatPostnote(citation, '~');
+        if (citation.locator && (citation.label || 'page') === 'page' && CitationInserter.BIBLATEX_COMMANDS.has(command)) {
+            // biblatex adds "p."/"pp." to numeric postnotes itself
+            post = post.slice(post.indexOf('~') + 1);
+        }
+
+        return { pre: (citation.prefix || '').trim(), post };
     }
 
     /**
-     * Format citation keys for insertion inside existing \cite{}
+     * [post] or [pre][post]; nothing when both are empty
      */
-    private formatKeysOnly(newKeys: string[], existingKeys: string[]): string {
+    private formatOptionalArguments(notes: { pre: string; post: string }): string {
+        if (notes.pre) {
+            return `[${notes.pre}][${notes.post}]`;
+        }
+        return notes.post ? `[${notes.post}]` : '';
+    }
+
+    /**
+     * Command name, switched to its author-suppressing form where one exists.
+     * Plain LaTeX has no \citeyear, so \cite stays as it is.
+     */
+    private commandName(command: CitationCommand, suppressAuthor: boolean): string {
+        if (!suppressAuthor) {
+            return command;
+        }
+        switch (command) {
+            case 'parencite':
+            case 'autocite':
+                return `${command}*`;
+            case 'citep':
+                return 'citeyearpar';
+            case 'citet':
+                return 'citeyear';
+            default:
+                return command;
+        }
+    }
+
+    /**
+     * Format citation keys for insertion inside an existing key list,
+     * using the separator style already present there
+     */
+    private formatKeysOnly(newKeys: string[], existingKeys: string[], separator: string = ','): string {
         // Combine existing and new keys, removing duplicates
         const allKeys = [...existingKeys, ...newKeys];
         const uniqueKeys = Array.from(new Set(allKeys));
         
-        return uniqueKeys.join(',');
+        return uniqueKeys.join(separator);
     }
 
     /**
-     * Replace \zoteroCite trigger with \cite{keys} command
-     * or append keys to existing \cite{} if inside one
+     * Replace \zoteroCite trigger with a citation command
+     * or append keys to an existing citation command if inside one.
+     * Other languages get their formatter's syntax.
+     * The edit is applied together with anything already staged on `transaction`.
      */
     async replaceTrigger(
         document: vscode.TextDocument,
         range: vscode.Range,
-        citationKeys: string[]
+        citations: PickedCitation[],
+        style: CitationStyle = 'cite',
+        transaction: EditTransaction = new EditTransaction()
     ): Promise<boolean> {
-        if (citationKeys.length === 0) {
+        if (citations.length === 0) {
             return false;
         }
 
-        const editor = vscode.window.activeTextEditor;
-        if (!editor || editor.document !== document) {
+        // The active editor, or another visible one such as a notebook cell's
+        const editor = [vscode.window.activeTextEditor, ...vscode.window.visibleTextEditors]
+            .find(candidate => candidate?.document === document);
+        if (!editor) {
             return false;
         }
 
+        const formatter = getCitationFormatter(document);
+        const { replaceRange, replacement, cursorOffset } = formatter
+            ? this.formatterEdit(formatter, document, range, citations, isCitationForm(style) ? style : formatter.forms[0].form)
+            : this.latexEdit(document, range, citations, isCitationForm(style) ? 'cite' : style);
+
+        transaction.replace(document, replaceRange, replacement);
+        const success = await transaction.apply();
+
+        if (success) {
+            // Position cursor after the citation
+            const newPosition = document.positionAt(cursorOffset);
+            editor.selection = new vscode.Selection(newPosition, newPosition);
+        }
+
+        return success;
+    }
+
+    /**
+     * New citation command, or the rewritten key list of the one around `range`
+     */
+    private latexEdit(
+        document: vscode.TextDocument,
+        range: vscode.Range,
+        citations: PickedCitation[],
+        command: CitationCommand
+    ): { replaceRange: vscode.Range; replacement: string; cursorOffset: number } {
         // Check if \zoteroCite is inside a \cite{} command
         const citeContext = this.isInsideCiteCommand(document, range.start);
 
-        let success: boolean;
+        let replaceRange: vscode.Range;
+        let replacement: string;
 
         if (citeContext.inside && citeContext.range && citeContext.existingKeys && citeContext.fullRange) {
-            // We're inside a \cite{}, replace the entire \cite{} command in one atomic operation
+            // We're inside a citation command: rewrite only its key list in one atomic operation,
+            // keeping the command, its optional arguments and the user's spacing.
+            // Picker notes can't be attached to individual keys here and are dropped.
             // This prevents triggering the detector multiple times
-            
-            // Combine existing keys (already filtered to exclude \zoteroCite) with new keys
-            const allKeys = [...citeContext.existingKeys, ...citationKeys];
-            const uniqueKeys = Array.from(new Set(allKeys));
-            
-            // Create the new \cite{} command
-            const newCiteCommand = this.formatCitation(uniqueKeys);
-            
-            // Replace the entire \cite{} command
-            success = await editor.edit((editBuilder) => {
-                editBuilder.replace(citeContext.fullRange!, newCiteCommand);
-            });
-
-            if (success) {
-                // Position cursor after the closing brace
-                const newPosition = new vscode.Position(
-                    citeContext.fullRange.start.line,
-                    citeContext.fullRange.start.character + newCiteCommand.length
-                );
-                editor.selection = new vscode.Selection(newPosition, newPosition);
-            }
+            const keys = this.formatKeysOnly(citations.map(c => c.key), citeContext.existingKeys, citeContext.separator);
+
+            replaceRange = citeContext.range;
+            replacement = `${citeContext.leading}${keys}${citeContext.trailing}`;
         } else {
-            // We're not inside a \cite{}, create a new one
-            const replacement = this.formatCitation(citationKeys);
-
-            success = await editor.edit((editBuilder) => {
-                editBuilder.replace(range, replacement);
-            });
-
-            if (success) {
-                // Position cursor after the closing brace
-                const newPosition = new vscode.Position(
-                    range.start.line,
-                    range.start.character + replacement.length
-                );
-                editor.selection = new vscode.Selection(newPosition, newPosition);
-            }
+            // We're not inside a citation command, create a new one
+            replaceRange = range;
+            replacement = this.formatCitation(citations, command);
         }
 
-        return success;
+        // Cursor goes after the closing brace of the (possibly rewritten) command
+        const commandEnd = citeContext.inside && citeContext.fullRange
+            ? citeContext.fullRange.end
+            : replaceRange.end;
+        const cursorOffset = document.offsetAt(commandEnd) +
+            replacement.length - (document.offsetAt(replaceRange.end) - document.offsetAt(replaceRange.start));
+
+        return { replaceRange, replacement, cursorOffset };
+    }
+
+    /**
+     * Citation in the syntax of the document's language
+     */
+    private formatterEdit(
+        formatter: CitationFormatter,
+        document: vscode.TextDocument,
+        range: vscode.Range,
+        citations: PickedCitation[],
+        form: CitationForm
+    ): { replaceRange: vscode.Range; replacement: string; cursorOffset: number } {
+        const edit = formatter.cite(
+            document.getText(),
+            document.offsetAt(range.start),
+            document.offsetAt(range.end),
+            citations,
+            form
+        );
+
+        return {
+            replaceRange: new vscode.Range(document.positionAt(edit.start), document.positionAt(edit.end)),
+            replacement: edit.newText,
+            cursorOffset: edit.cursor
+        };
     }
 }
@@ -0,0 +1,146 @@
+/**
+ * Citation Key Completion Provider - Complete keys inside cite commands from
+ * the project's .bib files and from the Zotero library
+ */
+
+import * as vscode from 'vscode';
+import { BibliographyIndex } from './bibliographyIndex';
+import { BibEntryFormatter } from './bibEntryFormatter';
+import { CiteCommandParser } from './citeCommandParser';
+import { ZoteroAPIClient } from './zoteroApiClient';
+
+/**
+ * Command run after accepting a Zotero item that isn't in the .bib file yet
+ */
+export const ADD_COMPLETED_CITATION_COMMAND = 'zotero-cite.addCompletedCitation';
+
+/**
+ * Characters typed before the Zotero library is searched
+ */
+const MIN_ZOTERO_QUERY_LENGTH = 3;
+
+/**
+ * Pause before searching Zotero, so fast typing doesn't send a request per key
+ */
+const ZOTERO_SEARCH_DELAY = 250;
+
+/**
+ * Maximum number of Zotero results offered
+ */
+const MAX_ZOTERO_RESULTS = 50;
+
+export class CitationKeyCompletionProvider implements vscode.CompletionItemProvider {
+    constructor(
+        private bibliographyIndex: BibliographyIndex,
+        private apiClient: ZoteroAPIClient
+    ) {}
+
+    async provideCompletionItems(
+        document: vscode.TextDocument,
+        position: vscode.Position,
+        token: vscode.CancellationToken
+    ): Promise<vscode.CompletionList | undefined> {
+        const partial = CitationKeyCompletionProvider.findPartialKey(document, position);
+        if (!partial) {
+            return undefined;
+        }
+
+        const entries = await this.bibliographyIndex.getEntries(document);
+        const items: vscode.CompletionItem[] = [];
+
+        for (const { entry, uri } of entries.values()) {
+            const item = new vscode.CompletionItem(
+                { label: entry.key, description: BibEntryFormatter.getShortReference(entry) },
+                vscode.CompletionItemKind.Reference
+            );
+            const title = BibEntryFormatter.getTitle(entry);
+            item.detail = title ? `${BibEntryFormatter.getShortReference(entry)} — ${title}` : BibEntryFormatter.getShortReference(entry);
+            item.documentation = new vscode.MarkdownString()
+                .appendCodeblock(entry.raw, 'bibtex')
+                .appendMarkdown(`\n${uri.fsPath.split(/[/\\]/).pop()}`);
+            // Match on authors and title too, not just the key
+            item.filterText = `${entry.key} ${BibEntryFormatter.getAuthors(entry) ?? ''} ${title ?? ''}`;
+            item.range = partial.range;
+            item.sortText = `0${entry.key}`;
+            items.push(item);
+        }
+
+        const query = partial.text;
+        if (query.length < MIN_ZOTERO_QUERY_LENGTH) {
+            // Ask again once enough is typed to search Zotero
+            return new vscode.CompletionList(items, true);
+        }
+
+        await new Promise(resolve => setTimeout(resolve, ZOTERO_SEARCH_DELAY));
+        if (token.isCancellationRequested) {
+            return new vscode.CompletionList(items, true);
+        }
+
+        try {
+            const results = await this.apiClient.searchItems(query);
+            for (const result of results.slice(0, MAX_ZOTERO_RESULTS)) {
+                if (entries.has(result.key)) {
+                    continue;
+                }
+
+                const reference = result.year ? `${result.authors ?? 'Unknown author'} (${result.year})` : (result.authors ?? '');
+                const item = new vscode.CompletionItem(
+                    { label: result.key, description: `Zotero · ${reference}` },
+                    vscode.CompletionItemKind.Value
+                );
+                item.detail = result.title ? `${reference} — ${result.title}` : reference;
+                item.documentation = new vscode.MarkdownString('Not in the .bib file yet; its entry is added from Zotero when accepted.');
+                item.filterText = `${result.key} ${query}`;
+                item.range = partial.range;
+                item.sortText = `1${result.key}`;
+                item.command = {
+                    title: 'Add entry from Zotero',
+                    command: ADD_COMPLETED_CITATION_COMMAND,
+                    arguments: [document.uri.toString(), result.key]
+                };
+                items.push(item);
+            }
+        } catch (error) {
+            // Zotero not running: offer the local keys only
+            console.log(`Zotero search failed: ${error}`);
+        }
+
+        return new vscode.CompletionList(items, true);
+    }
+
+    /**
+     * The key being typed inside a cite command's key list, from the last
+     * separator to the cursor
+     */
+    static findPartialKey(
+        document: vscode.TextDocument,
+        position: vscode.Position
+    ): { text: string; range: vscode.Range } | undefined {
+        const offset = document.offsetAt(position);
+        const text = document.getText();
+
+        let groupStart: number;
+        const found = CiteCommandParser.findAt(text, offset);
+        if (found) {
+            groupStart = found.group.start;
+        } else {
+            // Unclosed key list while typing, e.g. "\citep[see]{smi"
+            const linePrefix = document.lineAt(position).text.slice(0, position.character);
+            const match = linePrefix.match(/\\([A-Za-z]+)\*?\s*(?:\[[^\]]*\]\s*)*\{([^{}]*)$/);
+            if (!match || !CiteCommandParser.isCiteCommand(match[1])) {
+                return undefined;
+            }
+            groupStart = offset - match[2].length;
+        }
+
+        let start = offset;
+        while (start > groupStart && !/[,\s{]/.test(text[start - 1])) {
+            start--;
+        }
+
+        return {
+            text: text.slice(start, offset),
+            range: new vscode.Range(document.positionAt(start), position)
+        };
+    }
+}
@@ -0,0 +1,70 @@
+/**
+ * Citation Navigation Provider - Go to Definition from cite keys to .bib
+ * entries, and Find All References from either side to the citing .tex files
+ */
+
+import * as vscode from 'vscode';
+import { BibliographyIndex } from './bibliographyIndex';
+import { BibTeXFileManager } from './bibtexFileManager';
+import { CitationHoverProvider } from './citationHoverProvider';
+
+export class CitationNavigationProvider implements vscode.DefinitionProvider, vscode.ReferenceProvider {
+    constructor(
+        private bibliographyIndex: BibliographyIndex,
+        private bibFileManager: BibTeXFileManager
+    ) {}
+
+    /**
+     * Jump from a key inside a cite command to its `@type{key,` line
+     */
+    async provideDefinition(
+        document: vscode.TextDocument,
+        position: vscode.Position
+    ): Promise<vscode.Location | undefined> {
+        const citeKey = CitationHoverProvider.findKeyAt(document, position);
+        if (!citeKey) {
+            return undefined;
+        }
+
+        const located = await this.bibliographyIndex.findEntry(document, citeKey.key);
+        return located ? new vscode.Location(located.uri, located.keyRange) : undefined;
+    }
+
+    /**
+     * Every place citing the key under the cursor, from a cite command in a
+     * .tex file or from the header of a .bib entry
+     */
+    async provideReferences(
+        document: vscode.TextDocument,
+        position: vscode.Position,
+        context: vscode.ReferenceContext
+    ): Promise<vscode.Location[] | undefined> {
+        const key = await this.getKeyAt(document, position);
+        if (!key) {
+            return undefined;
+        }
+
+        const locations = await this.bibliographyIndex.findCitations(key, document.uri);
+
+        if (context.includeDeclaration) {
+            const declaration = document.languageId === 'bibtex'
+                ? (await this.bibFileManager.parseBibEntries(document.uri)).find(located => located.entry.key === key)
+                : await this.bibliographyIndex.findEntry(document, key);
+            if (declaration) {
+                locations.unshift(new vscode.Location(declaration.uri, declaration.keyRange));
+            }
+        }
+
+        return locations;
+    }
+
+    private async getKeyAt(document: vscode.TextDocument, position: vscode.Position): Promise<string | undefined> {
+        if (document.languageId !== 'bibtex') {
+            return CitationHoverProvider.findKeyAt(document, position)?.key;
+        }
+
+        // In a .bib file, the cursor has to be on an entry's header line
+        const entries = await this.bibFileManager.parseBibEntries(document.uri);
+        return entries.find(located => located.keyRange.start.line === position.line)?.entry.key;
+    }
+}
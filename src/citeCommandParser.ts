@@ -0,0 +1,263 @@
+/**
+ * Cite Command Parser - Locate LaTeX citation commands with their optional
+ * arguments and key lists, across line breaks
+ */
+
+/**
+ * A citation key inside a key group
+ */
+export interface CiteKey {
+    key: string;
+    start: number;
+    end: number;
+}
+
+/**
+ * The `{...}` argument holding citation keys; offsets exclude the braces
+ */
+export interface CiteKeyGroup {
+    start: number;
+    end: number;
+    keys: CiteKey[];
+    /** Text between the first two keys (e.g. "," or ", "), if there are two */
+    separator?: string;
+}
+
+/**
+ * A `[...]` or `(...)` argument; offsets include the delimiters
+ */
+export interface CiteOptionalArgument {
+    start: number;
+    end: number;
+    text: string;
+}
+
+/**
+ * A citation command such as `\parencite[see][12]{a,b}` or `\cites{a}{b}`
+ */
+export interface CiteCommand {
+    /** Command name without backslash and star */
+    name: string;
+    starred: boolean;
+    /** Offset of the backslash */
+    start: number;
+    /** Offset after the last argument */
+    end: number;
+    optionalArguments: CiteOptionalArgument[];
+    keyGroups: CiteKeyGroup[];
+}
+
+/**
+ * Citation commands taking one key list (natbib and biblatex)
+ */
+const SINGLE_CITE_COMMANDS = new Set([
+    'cite', 'Cite', 'nocite',
+    'citep', 'Citep', 'citet', 'Citet', 'citealp', 'Citealp', 'citealt', 'Citealt',
+    'citeauthor', 'Citeauthor', 'citeyear', 'citeyearpar', 'citenum',
+    'parencite', 'Parencite', 'textcite', 'Textcite', 'autocite', 'Autocite',
+    'footcite', 'footcitetext', 'smartcite', 'Smartcite', 'supercite',
+    'citetitle', 'Citetitle', 'citedate', 'citeurl', 'fullcite', 'footfullcite',
+    'notecite', 'pnotecite', 'fnotecite'
+]);
+
+/**
+ * biblatex multicite commands (`\cites`, `\parencites`, ...)
+ */
+const MULTI_CITE_COMMANDS = new Set([
+    'cites', 'Cites', 'parencites', 'Parencites', 'textcites', 'Textcites',
+    'autocites', 'Autocites', 'footcites', 'footcitetexts', 'smartcites', 'Smartcites',
+    'supercites'
+]);
+
+export class CiteCommandParser {
+    /**
+     * Whether a command name (without backslash) is a citation command
+     */
+    static isCiteCommand(name: string): boolean {
+        return SINGLE_CITE_COMMANDS.has(name) || MULTI_CITE_COMMANDS.has(name);
+    }
+
+    /**
+     * Find all citation commands in LaTeX source
+     */
+    static findAll(text: string): CiteCommand[] {
+        const commands: CiteCommand[] = [];
+        const commandPattern = /\\([A-Za-z]+)(\*?)/g;
+        let match;
+
+        while ((match = commandPattern.exec(text)) !== null) {
+            const name = match[1];
+            if (!this.isCiteCommand(name) || this.isCommentedOut(text, match.index)) {
+                continue;
+            }
+
+            const command = this.parseArguments(text, match.index, name, match[2] === '*', match.index + match[0].length);
+            if (command) {
+                commands.push(command);
+                commandPattern.lastIndex = command.end;
+            }
+        }
+
+        return commands;
+    }
+
+    /**
+     * Find the citation command and key group containing an offset
+     */
+    static findAt(text: string, offset: number): { command: CiteCommand; group: CiteKeyGroup } | null {
+        for (const command of this.findAll(text)) {
+            if (offset < command.start || offset > command.end) {
+                continue;
+            }
+            const group = command.keyGroups.find(g => offset >= g.start && offset <= g.end);
+            if (group) {
+                return { command, group };
+            }
+        }
+        return null;
+    }
+
+    /**
+     * Parse `[opt]`, `(opt)` and `{keys}` arguments following a command name
+     */
+    private static parseArguments(
+        text: string,
+        start: number,
+        name: string,
+        starred: boolean,
+        from: number
+    ): CiteCommand | null {
+        const multi = MULTI_CITE_COMMANDS.has(name);
+        const optionalArguments: CiteOptionalArgument[] = [];
+        const keyGroups: CiteKeyGroup[] = [];
+        let pos = from;
+        let end = from;
+
+        while (true) {
+            const next = this.skipSpace(text, pos);
+            const ch = text[next];
+
+            if (ch === '[' || (ch === '(' && multi && keyGroups.length === 0)) {
+                const close = this.findClosing(text, next, ch, ch === '[' ? ']' : ')');
+                if (close === -1) {
+                    break;
+                }
+                optionalArguments.push({ start: next, end: close + 1, text: text.slice(next + 1, close) });
+                pos = end = close + 1;
+                continue;
+            }
+
+            if (ch === '{') {
+                if (keyGroups.length > 0 && !multi) {
+                    break;
+                }
+                const close = this.findClosing(text, next, '{', '}');
+                if (close === -1) {
+                    break;
+                }
+                keyGroups.push(this.parseKeyGroup(text, next + 1, close));
+                pos = end = close + 1;
+                if (!multi) {
+                    break;
+                }
+                continue;
+            }
+
+            break;
+        }
+
+        if (keyGroups.length === 0) {
+            return null;
+        }
+
+        return { name, starred, start, end, optionalArguments, keyGroups };
+    }
+
+    /**
+     * Split `{a, b,\n c}` into keys with offsets
+     */
+    private static parseKeyGroup(text: string, start: number, end: number): CiteKeyGroup {
+        const keys: CiteKey[] = [];
+        const content = text.slice(start, end);
+        const keyPattern = /[^,\s%]+/g;
+        let keyMatch;
+
+        // Mask comments so "% note" inside a multi-line key list is ignored
+        const masked = content.replace(/%[^\n]*/g, comment => ' '.repeat(comment.length));
+
+        while ((keyMatch = keyPattern.exec(masked)) !== null) {
+            keys.push({
+                key: keyMatch[0],
+                start: start + keyMatch.index,
+                end: start + keyMatch.index + keyMatch[0].length
+            });
+        }
+
+        const group: CiteKeyGroup = { start, end, keys };
+        if (keys.length >= 2) {
+            group.separator = text.slice(keys[0].end, keys[1].start);
+        }
+        return group;
+    }
+
+    /**
+     * Find the delimiter closing the one at `open`, honouring nested braces
+     */
+    private static findClosing(text: string, open: number, openChar: string, closeChar: string): number {
+        let depth = 0;
+        let braceDepth = 0;
+        for (let i = open; i < text.length; i++) {
+            const c = text[i];
+            if (c === '\\') {
+                i++;
+                continue;
+            }
+            if (openChar !== '{') {
+                if (c === '{') {
+                    braceDepth++;
+                } else if (c === '}') {
+                    braceDepth--;
+                }
+                if (braceDepth > 0) {
+                    continue;
+                }
+            }
+            if (c === openChar) {
+                depth++;
+            } else if (c === closeChar) {
+                depth--;
+                if (depth === 0) {
+                    return i;
+                }
+            }
+        }
+        return -1;
+    }
+
+    /**
+     * Skip spaces and at most one line break, as TeX does between arguments
+     */
+    private static skipSpace(text: string, pos: number): number {
+        let newlines = 0;
+        while (pos < text.length) {
+            const c = text[pos];
+            if (c === '\n') {
+                if (++newlines > 1) {
+                    break;
+                }
+            } else if (c !== ' ' && c !== '\t' && c !== '\r') {
+                break;
+            }
+            pos++;
+        }
+        return pos;
+    }
+
+    /**
+     * Whether an unescaped % precedes the offset on its line
+     */
+    private static isCommentedOut(text: string, offset: number): boolean {
+        const lineStart = text.lastIndexOf('\n', offset - 1) + 1;
+        return /(^|[^\\])%/.test(text.slice(lineStart, offset));
+    }
+}
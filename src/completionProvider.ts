@@ -1,8 +1,9 @@
 /**
- * Completion Provider for \zoteroCite command
+ * Completion Provider for \zoteroCite command (and the triggers of other languages, e.g. @zoteroCite)
  */
 
 import * as vscode from 'vscode';
+import { getCitationFormatter } from './citationFormatter';
 
 export class ZoteroCiteCompletionProvider implements vscode.CompletionItemProvider {
     provideCompletionItems(
@@ -11,20 +12,27 @@ export class ZoteroCiteCompletionProvider implements vscode.CompletionItemProvid
         token: vscode.CancellationToken,
         context: vscode.CompletionContext
     ): vscode.CompletionItem[] | undefined {
+        const formatter = getCitationFormatter(document);
+        const trigger = formatter?.trigger ?? '\\zoteroCite';
+        const name = trigger.slice(1);
+
         // Get the text before cursor
         const linePrefix = document.lineAt(position).text.substring(0, position.character);
-        
-        // Only provide completion after backslash
-        if (!linePrefix.endsWith('\\') && !linePrefix.match(/\\z(o(t(e(r(o(C(i(t(e?)?)?)?)?)?)?)?)?)?$/)) {
+
+        // Only provide completion after the backslash (or the language's sigil) and a start of the name
+        const sigilIndex = linePrefix.lastIndexOf(trigger[0]);
+        if (sigilIndex === -1 || !name.startsWith(linePrefix.slice(sigilIndex + 1))) {
             return undefined;
         }
 
+        const citation = formatter ? formatter.forms[0].label.replace('key', 'keys') : '\\cite{keys}';
+
         const completionItem = new vscode.CompletionItem(
-            'zoteroCite',
+            name,
             vscode.CompletionItemKind.Function
         );
 
-        completionItem.insertText = 'zoteroCite';
+        completionItem.insertText = name;
         completionItem.detail = 'Insert citation from Zotero';
         completionItem.documentation = new vscode.MarkdownString(
             'Insert a citation from your Zotero library.\n\n' +
@@ -32,7 +40,7 @@ export class ZoteroCiteCompletionProvider implements vscode.CompletionItemProvid
             '1. Open Zotero\'s citation picker\n' +
             '2. Fetch BibTeX entries for selected references\n' +
             '3. Append entries to your .bib file\n' +
-            '4. Replace with `\\cite{keys}`\n\n' +
+            `4. Replace with \`${citation}\`${formatter ? '' : ' (or the configured citation command)'}\n\n` +
             '**Requirements:**\n' +
             '- Zotero must be running\n' +
             '- Better BibTeX plugin must be installed'
@@ -40,13 +48,36 @@ export class ZoteroCiteCompletionProvider implements vscode.CompletionItemProvid
 
         // Set sort text to appear at top of suggestions
         completionItem.sortText = '0';
-        
+
         // Add command to trigger after insertion
         completionItem.command = {
             command: 'zotero-cite.triggerManually',
             title: 'Trigger Zotero Citation'
         };
 
-        return [completionItem];
+        // Starred variant asks which citation command (or form) to insert
+        const commandPickItem = new vscode.CompletionItem(
+            `${name}*`,
+            vscode.CompletionItemKind.Function
+        );
+
+        commandPickItem.insertText = `${name}*`;
+        commandPickItem.detail = formatter
+            ? 'Insert citation from Zotero, choosing the form'
+            : 'Insert citation from Zotero, choosing the command';
+        commandPickItem.documentation = new vscode.MarkdownString(formatter
+            ? `Like \`${trigger}\`, but first asks how to cite: ` +
+                formatter.forms.map(({ label, description }) => `\`${label}\` (${description.toLowerCase()})`).join(', ') + '.'
+            : 'Like `\\zoteroCite`, but first asks which command to insert: ' +
+                '`\\cite`, `\\citep`, `\\citet`, `\\parencite`, `\\textcite`, ' +
+                '`\\autocite`, `\\footcite` or `\\nocite`.'
+        );
+        commandPickItem.sortText = '1';
+        commandPickItem.command = {
+            command: 'zotero-cite.triggerManually',
+            title: 'Trigger Zotero Citation'
+        };
+
+        return [completionItem, commandPickItem];
     }
 }
@@ -4,19 +4,36 @@
 
 import * as vscode from 'vscode';
 import * as path from 'path';
-import { ValidationResult } from './types';
+import { CitationCommand, ExportOptions, ExportTranslator, ValidationResult } from './types';
+import { DEFAULT_REQUEST_TIMEOUT, DEFAULT_ZOTERO_URL, ZoteroAPIClient } from './zoteroApiClient';
 
 export class ConfigurationManager {
     private static readonly CONFIG_SECTION = 'zotero-cite';
     private static readonly DEFAULT_BIB_FILE_KEY = 'defaultBibFile';
     private static readonly AUTO_APPEND_KEY = 'autoAppend';
+    private static readonly CITATION_COMMAND_KEY = 'citationCommand';
+    private static readonly UNCITED_ENTRY_HINTS_KEY = 'uncitedEntryHints';
+    private static readonly EXPORT_TRANSLATOR_KEY = 'exportTranslator';
+    private static readonly JOURNAL_ABBREVIATION_KEY = 'useJournalAbbreviation';
+    private static readonly EXPORT_NOTES_KEY = 'exportNotes';
+    private static readonly EXPORT_CHARACTERS_KEY = 'exportCharacters';
+    private static readonly ZOTERO_URL_KEY = 'zoteroUrl';
+    private static readonly REQUEST_TIMEOUT_KEY = 'requestTimeout';
+
+    /**
+     * Get the configuration for a resource, so folder settings of a
+     * multi-root workspace apply to the documents in that folder
+     */
+    private getConfiguration(scope?: vscode.Uri): vscode.WorkspaceConfiguration {
+        return vscode.workspace.getConfiguration(ConfigurationManager.CONFIG_SECTION, scope);
+    }
 
     /**
      * Get the default .bib file path from configuration
      * Returns undefined if not configured
      */
-    getDefaultBibFile(): string | undefined {
-        const config = vscode.workspace.getConfiguration(ConfigurationManager.CONFIG_SECTION);
+    getDefaultBibFile(scope?: vscode.Uri): string | undefined {
+        const config = this.getConfiguration(scope);
         const bibFile = config.get<string>(ConfigurationManager.DEFAULT_BIB_FILE_KEY);
         
         if (!bibFile || bibFile.trim() === '') {
@@ -29,15 +46,105 @@ export class ConfigurationManager {
     /**
      * Check if auto-append is enabled
      */
-    isAutoAppendEnabled(): boolean {
-        const config = vscode.workspace.getConfiguration(ConfigurationManager.CONFIG_SECTION);
+    isAutoAppendEnabled(scope?: vscode.Uri): boolean {
+        const config = this.getConfiguration(scope);
         return config.get<boolean>(ConfigurationManager.AUTO_APPEND_KEY, true);
     }
 
     /**
-     * Resolve a .bib file path (absolute or workspace-relative) to an absolute URI
+     * Get the configured citation command, or 'auto' to detect it from the preamble
+     */
+    getCitationCommand(scope?: vscode.Uri): CitationCommand | 'auto' {
+        const config = this.getConfiguration(scope);
+        return config.get<CitationCommand | 'auto'>(ConfigurationManager.CITATION_COMMAND_KEY, 'auto');
+    }
+
+    /**
+     * Check if uncited .bib entries are marked with hint diagnostics
+     */
+    isUncitedEntryHintsEnabled(scope?: vscode.Uri): boolean {
+        const config = this.getConfiguration(scope);
+        return config.get<boolean>(ConfigurationManager.UNCITED_ENTRY_HINTS_KEY, false);
+    }
+
+    /**
+     * Get the configured export translator, or 'auto' to choose it from the preamble
+     */
+    getExportTranslator(scope?: vscode.Uri): ExportTranslator | 'auto' {
+        const config = this.getConfiguration(scope);
+        return config.get<ExportTranslator | 'auto'>(ConfigurationManager.EXPORT_TRANSLATOR_KEY, 'auto');
+    }
+
+    /**
+     * Get the Better BibTeX export options; unset (null) options are left
+     * to Better BibTeX's preferences
      */
-    resolveBibFilePath(bibFilePath: string): vscode.Uri | null {
+    getExportOptions(scope?: vscode.Uri): Omit<ExportOptions, 'translator'> {
+        const config = this.getConfiguration(scope);
+        const options: Omit<ExportOptions, 'translator'> = {};
+
+        const useJournalAbbreviation = config.get<boolean | null>(ConfigurationManager.JOURNAL_ABBREVIATION_KEY, null);
+        if (typeof useJournalAbbreviation === 'boolean') {
+            options.useJournalAbbreviation = useJournalAbbreviation;
+        }
+
+        const exportNotes = config.get<boolean | null>(ConfigurationManager.EXPORT_NOTES_KEY, null);
+        if (typeof exportNotes === 'boolean') {
+            options.exportNotes = exportNotes;
+        }
+
+        const characters = config.get<string>(ConfigurationManager.EXPORT_CHARACTERS_KEY, 'default');
+        if (characters === 'ascii' || characters === 'unicode') {
+            options.asciiOutput = characters === 'ascii';
+        }
+
+        return options;
+    }
+
+    /**
+     * Get the base URL of Zotero's HTTP server
+     */
+    getZoteroUrl(): string {
+        const config = this.getConfiguration();
+        const url = config.get<string>(ConfigurationManager.ZOTERO_URL_KEY);
+        return url && url.trim() !== '' ? url.trim() : DEFAULT_ZOTERO_URL;
+    }
+
+    /**
+     * Get the Zotero request timeout in milliseconds
+     */
+    getRequestTimeout(): number {
+        const config = this.getConfiguration();
+        return config.get<number>(ConfigurationManager.REQUEST_TIMEOUT_KEY, DEFAULT_REQUEST_TIMEOUT);
+    }
+
+    /**
+     * Whether a configuration change affects how Zotero is reached
+     */
+    affectsZoteroEndpoint(event: vscode.ConfigurationChangeEvent): boolean {
+        return event.affectsConfiguration(`${ConfigurationManager.CONFIG_SECTION}.${ConfigurationManager.ZOTERO_URL_KEY}`) ||
+            event.affectsConfiguration(`${ConfigurationManager.CONFIG_SECTION}.${ConfigurationManager.REQUEST_TIMEOUT_KEY}`);
+    }
+
+    /**
+     * Workspace folder of a resource; without one, the only folder of a
+     * single-root workspace
+     */
+    getWorkspaceFolder(scope?: vscode.Uri): vscode.WorkspaceFolder | undefined {
+        const folder = scope ? vscode.workspace.getWorkspaceFolder(scope) : undefined;
+        if (folder) {
+            return folder;
+        }
+
+        const workspaceFolders = vscode.workspace.workspaceFolders;
+        return workspaceFolders && workspaceFolders.length === 1 ? workspaceFolders[0] : undefined;
+    }
+
+    /**
+     * Resolve a .bib file path (absolute or workspace-relative) to an absolute URI.
+     * Relative paths are resolved against the workspace folder of `scope`.
+     */
+    resolveBibFilePath(bibFilePath: string, scope?: vscode.Uri): vscode.Uri | null {
         if (!bibFilePath) {
             return null;
         }
@@ -48,27 +155,61 @@ export class ConfigurationManager {
         }
 
         // Try to resolve as workspace-relative path
-        const workspaceFolders = vscode.workspace.workspaceFolders;
-        if (!workspaceFolders || workspaceFolders.length === 0) {
+        const workspaceFolder = this.getWorkspaceFolder(scope);
+        if (!workspaceFolder) {
             return null;
         }
 
-        // Use the first workspace folder as the base
-        const workspaceRoot = workspaceFolders[0].uri.fsPath;
-        const absolutePath = path.join(workspaceRoot, bibFilePath);
+        const absolutePath = path.join(workspaceFolder.uri.fsPath, bibFilePath);
         
         return vscode.Uri.file(absolutePath);
     }
 
     /**
-     * Validate configuration values
+     * Save a .bib file as the default for the workspace folder of `scope`:
+     * relative to that folder when inside it, in folder settings for
+     * multi-root workspaces, and as an absolute user setting without a workspace
+     */
+    async saveDefaultBibFile(bibFileUri: vscode.Uri, scope?: vscode.Uri): Promise<void> {
+        const workspaceFolder = this.getWorkspaceFolder(scope ?? bibFileUri);
+
+        if (!workspaceFolder) {
+            // Save as absolute path if no workspace
+            await this.getConfiguration().update(
+                ConfigurationManager.DEFAULT_BIB_FILE_KEY,
+                bibFileUri.fsPath,
+                vscode.ConfigurationTarget.Global
+            );
+            return;
+        }
+
+        // Try to save as workspace-relative path
+        const relativePath = path.relative(workspaceFolder.uri.fsPath, bibFileUri.fsPath);
+        const isInside = relativePath !== '' && !relativePath.startsWith('..') && !path.isAbsolute(relativePath);
+        const value = isInside ? relativePath.replace(/\\/g, '/') : bibFileUri.fsPath;
+
+        const isMultiRoot = (vscode.workspace.workspaceFolders?.length ?? 0) > 1;
+        await this.getConfiguration(workspaceFolder.uri).update(
+            ConfigurationManager.DEFAULT_BIB_FILE_KEY,
+            value,
+            isMultiRoot ? vscode.ConfigurationTarget.WorkspaceFolder : vscode.ConfigurationTarget.Workspace
+        );
+    }
+
+    /**
+     * Validate configuration values of every workspace folder
      */
     async validateConfiguration(): Promise<ValidationResult> {
         const errors: string[] = [];
-        const bibFile = this.getDefaultBibFile();
+        const scopes: Array<vscode.Uri | undefined> = vscode.workspace.workspaceFolders?.map(folder => folder.uri) ?? [undefined];
 
-        if (bibFile) {
-            const bibFileUri = this.resolveBibFilePath(bibFile);
+        for (const scope of scopes) {
+            const bibFile = this.getDefaultBibFile(scope);
+            if (!bibFile) {
+                continue;
+            }
+
+            const bibFileUri = this.resolveBibFilePath(bibFile, scope);
             
             if (!bibFileUri) {
                 errors.push(`Cannot resolve .bib file path: ${bibFile}. No workspace folder found.`);
@@ -89,6 +230,12 @@ export class ConfigurationManager {
             }
         }
 
+        try {
+            ZoteroAPIClient.parseEndpoint(this.getZoteroUrl(), this.getRequestTimeout());
+        } catch (error) {
+            errors.push(error instanceof Error ? error.message : String(error));
+        }
+
         return {
             valid: errors.length === 0,
             errors
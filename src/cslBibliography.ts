@@ -0,0 +1,915 @@
+/**
+ * CSL Bibliography - Read and merge CSL-JSON and CSL-YAML bibliographies
+ * (Pandoc/Quarto `references.json` / `references.yaml`)
+ */
+
+import { BibTeXEntry } from './duplicateDetector';
+import { ExportTranslator } from './types';
+
+export type CSLFormat = 'json' | 'yaml';
+
+/**
+ * Value of a field in a parsed item, as JSON or the YAML reader gives it
+ */
+export type CSLValue = string | number | boolean | null | CSLValue[] | CSLData;
+
+/**
+ * Fields of a parsed item, or of an object nested in one
+ */
+export interface CSLData {
+    [field: string]: CSLValue;
+}
+
+/**
+ * One item of a CSL bibliography
+ */
+export interface CSLItem {
+    id: string;
+    data: CSLData;
+    /** Source text: the JSON object, or the YAML sequence item block */
+    raw: string;
+    /** Offsets of the item in the parsed source (-1 for items not read from a file) */
+    start: number;
+    end: number;
+}
+
+/**
+ * BibTeX names of fields in `zotero-cite.removeFields` and their CSL names
+ */
+const CSL_FIELD_NAMES: { [bibtexName: string]: string } = {
+    keywords: 'keyword',
+    doi: 'DOI',
+    url: 'URL',
+    isbn: 'ISBN',
+    issn: 'ISSN',
+    abstract: 'abstract'
+};
+
+/**
+ * Better BibTeX translators writing each format
+ */
+const CSL_TRANSLATORS: { [format in CSLFormat]: ExportTranslator } = {
+    json: 'Better CSL JSON',
+    yaml: 'Better CSL YAML'
+};
+
+interface YAMLLine {
+    indent: number;
+    text: string;
+}
+
+/**
+ * Offsets of a JSON value in the source text
+ */
+interface JSONSpan {
+    start: number;
+    end: number;
+}
+
+/**
+ * Object member from the start of its key to the end of its value
+ */
+interface JSONMember extends JSONSpan {
+    key: string;
+    valueStart: number;
+}
+
+/**
+ * How the items of a CSL-JSON file are written, so new items look the same
+ */
+interface JSONStyle {
+    /** Whitespace between two items, after the comma */
+    separator: string;
+    /** One indent level inside an item, null for items on one line */
+    indent: string | null;
+    eol: string;
+    /** `": "` or `":"` and `", "` or `","` of items on one line */
+    colon: string;
+    comma: string;
+    /** Non-ASCII characters are written as `\u` escapes */
+    ascii: boolean;
+}
+
+interface TextEdit extends JSONSpan {
+    newText: string;
+}
+
+/**
+ * Whether a parsed value is an object with fields (not a list)
+ */
+export function isCSLData(value: unknown): value is CSLData {
+    return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+export class CSLBibliography {
+    /**
+     * CSL format of a bibliography file from its extension, null for other files
+     */
+    static getFormat(path: string): CSLFormat | null {
+        const lower = path.toLowerCase();
+        if (lower.endsWith('.json')) {
+            return 'json';
+        }
+        if (lower.endsWith('.yaml') || lower.endsWith('.yml')) {
+            return 'yaml';
+        }
+        return null;
+    }
+
+    /**
+     * Translator exporting items in a format
+     */
+    static getTranslator(format: CSLFormat): ExportTranslator {
+        return CSL_TRANSLATORS[format];
+    }
+
+    /**
+     * Format a translator exports, null for the BibTeX translators
+     */
+    static getTranslatorFormat(translator: ExportTranslator): CSLFormat | null {
+        const formats = Object.keys(CSL_TRANSLATORS) as CSLFormat[];
+        return formats.find(format => CSL_TRANSLATORS[format] === translator) ?? null;
+    }
+
+    /**
+     * Items with an id; unparsable JSON throws
+     */
+    static parse(text: string, format: CSLFormat): CSLItem[] {
+        return format === 'json' ? this.parseJSON(text) : this.parseYAML(text);
+    }
+
+    /**
+     * Add `append` to the bibliography and put the items of `replace` in
+     * place of the existing items with the mapped ids. The file is edited
+     * as text so everything else stays as written; new JSON items follow
+     * the layout of the existing ones.
+     */
+    static merge(
+        text: string,
+        format: CSLFormat,
+        append: CSLItem[],
+        replace: Map<string, CSLItem> = new Map()
+    ): string {
+        return format === 'json'
+            ? this.mergeJSON(text, append, replace)
+            : this.mergeYAML(text, append, replace);
+    }
+
+    /**
+     * Combine separate exports into one bibliography
+     */
+    static concat(exports: string[], format: CSLFormat): string {
+        return exports.reduce((text, exported) => this.merge(text, format, this.parse(exported, format)), '');
+    }
+
+    /**
+     * Remove fields from every item, accepting BibTeX field names such as
+     * `keywords` for their CSL counterparts
+     */
+    static removeFields(text: string, format: CSLFormat, fields: string[]): string {
+        const names = new Set(fields.flatMap(field => [field.toLowerCase(), (CSL_FIELD_NAMES[field.toLowerCase()] ?? field).toLowerCase()]));
+        if (names.size === 0 || text.trim() === '') {
+            return text;
+        }
+
+        if (format === 'json') {
+            const edits: TextEdit[] = [];
+            for (const span of this.findJSONItems(text).items) {
+                if (text[span.start] === '{') {
+                    const members = this.scanJSONMembers(text, span.start);
+                    edits.push(...this.removeJSONMembers(members, members.map(member =>
+                        names.has(member.key.toLowerCase()) && member.key !== 'id')));
+                }
+            }
+            return this.applyEdits(text, edits);
+        }
+
+        const lines = text.split('\n');
+        const removed = new Set<number>();
+        for (const item of this.parseYAML(text)) {
+            const first = this.lineOf(text, item.start);
+            const last = this.lineOf(text, item.end - 1);
+            const keyIndent = this.indentOf(lines[first]) + 2;
+
+            // Keys on the "- " line itself are kept; Better BibTeX puts the id there
+            for (let i = first + 1; i <= last; i++) {
+                const match = lines[i].match(/^(\s*)([^\s:#-][^:]*):(\s|$)/);
+                if (!match || match[1].length !== keyIndent || !names.has(match[2].trim().toLowerCase())) {
+                    continue;
+                }
+                removed.add(i);
+                // Nested values, block scalars and sequences written at the key's indent
+                while (i + 1 <= last && (lines[i + 1].trim() === '' || this.indentOf(lines[i + 1]) > keyIndent ||
+                    (this.indentOf(lines[i + 1]) === keyIndent && /^\s*-(\s|$)/.test(lines[i + 1])))) {
+                    removed.add(++i);
+                }
+            }
+        }
+        return lines.filter((_line, i) => !removed.has(i)).join('\n');
+    }
+
+    /**
+     * An item in the shape the duplicate detector compares: title, DOI,
+     * author family names and year
+     */
+    static toDuplicateEntry(item: CSLItem): BibTeXEntry {
+        const fields = new Map<string, string>();
+        if (typeof item.data.title === 'string') {
+            fields.set('title', item.data.title);
+        }
+        if (typeof item.data.DOI === 'string') {
+            fields.set('doi', item.data.DOI);
+        }
+
+        const authors = Array.isArray(item.data.author) ? item.data.author : [];
+        const families = authors
+            .map(author => isCSLData(author) ? author.family ?? author.literal : undefined)
+            .filter((name): name is string => typeof name === 'string');
+        if (families.length > 0) {
+            fields.set('author', families.join(' and '));
+        }
+
+        const year = this.getYear(item.data.issued);
+        if (year) {
+            fields.set('year', year);
+        }
+
+        return {
+            key: item.id,
+            type: typeof item.data.type === 'string' ? item.data.type : 'article',
+            fields,
+            rawText: item.raw,
+            start: item.start,
+            end: item.end
+        };
+    }
+
+    /**
+     * Year of a CSL date: `{ date-parts: [[2020, 5]] }`, `[{ year: 2020 }]`
+     * (Better CSL YAML), `{ raw: "2020-05" }` or a plain string
+     */
+    static getYear(issued: CSLValue | undefined): string | undefined {
+        const first = Array.isArray(issued) ? issued[0] : issued;
+        let year = first;
+        if (isCSLData(first)) {
+            const parts = first['date-parts'];
+            const firstPart = Array.isArray(parts) && Array.isArray(parts[0]) ? parts[0][0] : undefined;
+            year = firstPart ?? first.year ?? first.raw ?? first.literal;
+        }
+        const match = String(year ?? '').match(/\d{4}/);
+        return match ? match[0] : undefined;
+    }
+
+    private static parseJSON(text: string): CSLItem[] {
+        if (text.trim() === '') {
+            return [];
+        }
+        return this.findJSONItems(text).items.flatMap(span => {
+            const raw = text.slice(span.start, span.end);
+            const data: unknown = JSON.parse(raw);
+            return isCSLData(data) && (typeof data.id === 'string' || typeof data.id === 'number')
+                ? [{ id: String(data.id), data, raw, start: span.start, end: span.end }]
+                : [];
+        });
+    }
+
+    /**
+     * Offsets of the item list (Pandoc also accepts `{ "references": [...] }`)
+     * and of each item in it; unparsable JSON throws
+     */
+    private static findJSONItems(text: string): { open: number; close: number; items: JSONSpan[] } {
+        // Parsed first, so the scanning below only sees valid JSON
+        const parsed: unknown = JSON.parse(text);
+        let open = this.skipJSONWhitespace(text, 0);
+        if (!Array.isArray(parsed)) {
+            // Like JSON.parse, the last of repeated keys counts
+            const references = isCSLData(parsed) && Array.isArray(parsed.references)
+                ? this.scanJSONMembers(text, open).filter(member => member.key === 'references').pop()
+                : undefined;
+            if (!references) {
+                throw new Error('CSL-JSON bibliography is not a list of items');
+            }
+            open = references.valueStart;
+        }
+
+        const items: JSONSpan[] = [];
+        let i = this.skipJSONWhitespace(text, open + 1);
+        while (text[i] !== ']') {
+            const end = this.skipJSONValue(text, i);
+            items.push({ start: i, end });
+            i = this.skipJSONWhitespace(text, end);
+            if (text[i] === ',') {
+                i = this.skipJSONWhitespace(text, i + 1);
+            }
+        }
+        return { open, close: i, items };
+    }
+
+    /**
+     * Members of the object starting at `open`
+     */
+    private static scanJSONMembers(text: string, open: number): JSONMember[] {
+        const members: JSONMember[] = [];
+        let i = this.skipJSONWhitespace(text, open + 1);
+        while (text[i] !== '}') {
+            const keyEnd = this.skipJSONValue(text, i);
+            const valueStart = this.skipJSONWhitespace(text, text.indexOf(':', keyEnd) + 1);
+            const end = this.skipJSONValue(text, valueStart);
+            members.push({ key: JSON.parse(text.slice(i, keyEnd)), start: i, valueStart, end });
+            i = this.skipJSONWhitespace(text, end);
+            if (text[i] === ',') {
+                i = this.skipJSONWhitespace(text, i + 1);
+            }
+        }
+        return members;
+    }
+
+    /**
+     * End of the JSON value starting at `start`
+     */
+    private static skipJSONValue(text: string, start: number): number {
+        if (text[start] === '"') {
+            let i = start + 1;
+            while (i < text.length && text[i] !== '"') {
+                i += text[i] === '\\' ? 2 : 1;
+            }
+            return i + 1;
+        }
+
+        if (text[start] === '{' || text[start] === '[') {
+            let depth = 0;
+            for (let i = start; i < text.length; i++) {
+                if (text[i] === '"') {
+                    i = this.skipJSONValue(text, i) - 1;
+                } else if (text[i] === '{' || text[i] === '[') {
+                    depth++;
+                } else if ((text[i] === '}' || text[i] === ']') && --depth === 0) {
+                    return i + 1;
+                }
+            }
+            return text.length;
+        }
+
+        let i = start;
+        while (i < text.length && !/[\s,\]}]/.test(text[i])) {
+            i++;
+        }
+        return i;
+    }
+
+    private static skipJSONWhitespace(text: string, start: number): number {
+        let i = start;
+        while (i < text.length && /\s/.test(text[i])) {
+            i++;
+        }
+        return i;
+    }
+
+    /**
+     * Edits removing the flagged members together with their commas
+     */
+    private static removeJSONMembers(members: JSONMember[], removed: boolean[]): TextEdit[] {
+        const edits: TextEdit[] = [];
+        for (let first = 0; first < members.length; first++) {
+            if (!removed[first]) {
+                continue;
+            }
+            let last = first;
+            while (last + 1 < members.length && removed[last + 1]) {
+                last++;
+            }
+
+            if (last + 1 < members.length) {
+                // Up to the next member, so it takes the place of the first removed one
+                edits.push({ start: members[first].start, end: members[last + 1].start, newText: '' });
+            } else if (first > 0) {
+                // Trailing members go with the comma after the previous one
+                edits.push({ start: members[first - 1].end, end: members[last].end, newText: '' });
+            } else {
+                edits.push({ start: members[first].start, end: members[last].end, newText: '' });
+            }
+            first = last;
+        }
+        return edits;
+    }
+
+    private static mergeJSON(text: string, append: CSLItem[], replace: Map<string, CSLItem>): string {
+        const eol = text.includes('\r\n') ? '\r\n' : '\n';
+        if (text.trim() === '') {
+            return JSON.stringify(append.map(item => item.data), null, 2).replace(/\n/g, eol) + eol;
+        }
+
+        const { open, close, items } = this.findJSONItems(text);
+        const style = this.getJSONStyle(text, open, items);
+        const edits: TextEdit[] = [];
+        const placed = new Set<CSLItem>();
+
+        items.forEach((span, i) => {
+            const existing: unknown = JSON.parse(text.slice(span.start, span.end));
+            const replacement = isCSLData(existing) ? replace.get(String(existing.id)) : undefined;
+            if (!isCSLData(existing) || !replacement) {
+                return;
+            }
+            if (!placed.has(replacement)) {
+                // The new item keeps the order of the fields it had
+                const fields = Object.keys(existing).filter(field => field in replacement.data);
+                const ordered = Object.fromEntries([...new Set([...fields, ...Object.keys(replacement.data)])]
+                    .map(field => [field, replacement.data[field]]));
+                edits.push({ ...span, newText: this.formatJSONValue(ordered, style, this.getLineIndent(text, span.start)) });
+                placed.add(replacement);
+            } else {
+                // Further matches of the same new item are dropped with the comma before them
+                edits.push({ start: items[i - 1].end, end: span.end, newText: '' });
+            }
+        });
+
+        const toAppend = append.filter(item => !placed.has(item));
+        if (toAppend.length > 0) {
+            const itemIndent = style.separator.slice(style.separator.lastIndexOf('\n') + 1);
+            const formatted = toAppend.map(item => this.formatJSONValue(item.data, style, itemIndent));
+            if (items.length > 0) {
+                const last = items[items.length - 1].end;
+                edits.push({ start: last, end: last, newText: formatted.map(item => `,${style.separator}${item}`).join('') });
+            } else {
+                // Between the brackets of an empty list
+                const closing = `${eol}${this.getLineIndent(text, open)}`;
+                edits.push({ start: open + 1, end: close, newText: `${style.separator}${formatted.join(`,${style.separator}`)}${closing}` });
+            }
+        }
+
+        return this.applyEdits(text, edits);
+    }
+
+    /**
+     * Layout of the existing items; an empty list gets items indented one
+     * level more than the file's first indent
+     */
+    private static getJSONStyle(text: string, open: number, items: JSONSpan[]): JSONStyle {
+        const eol = text.includes('\r\n') ? '\r\n' : '\n';
+        const ascii = /\\u[0-9a-fA-F]{4}/.test(text) && !/[^\x00-\x7f]/.test(text);
+        const fileIndent = text.match(/^[ \t]+(?=\S)/m)?.[0] ?? '  ';
+
+        if (items.length === 0) {
+            const separator = `${eol}${this.getLineIndent(text, open)}${fileIndent}`;
+            return { separator, indent: fileIndent, eol, colon: ': ', comma: ', ', ascii };
+        }
+
+        const first = text.slice(items[0].start, items[0].end);
+        const gap = items.length > 1
+            ? text.slice(items[0].end, items[1].start).replace(',', '')
+            : text.slice(open + 1, items[0].start);
+        const separator = gap.includes('\n') ? `${eol}${gap.slice(gap.lastIndexOf('\n') + 1)}` : gap;
+
+        if (!first.includes('\n')) {
+            const colon = /"\s*:\s/.test(first) ? ': ' : ':';
+            const comma = /,\s+"/.test(first) ? ', ' : ',';
+            return { separator, indent: null, eol, colon, comma, ascii };
+        }
+
+        // The indent of the item's first field, less the item's own
+        const fieldIndent = first.split('\n')[1].match(/^[ \t]*/)![0];
+        const itemIndent = this.getLineIndent(text, items[0].start);
+        const indent = fieldIndent.startsWith(itemIndent) && fieldIndent.length > itemIndent.length
+            ? fieldIndent.slice(itemIndent.length)
+            : fileIndent;
+        return { separator, indent, eol, colon: ': ', comma: ', ', ascii };
+    }
+
+    /**
+     * A value in the style of the file, with nested lines starting at `lineIndent`
+     */
+    private static formatJSONValue(value: unknown, style: JSONStyle, lineIndent: string): string {
+        if (Array.isArray(value) || (typeof value === 'object' && value !== null)) {
+            const entries = Array.isArray(value)
+                ? value.map(item => this.formatJSONValue(item ?? null, style, lineIndent + (style.indent ?? '')))
+                : Object.entries(value)
+                    .filter(([, field]) => field !== undefined)
+                    .map(([key, field]) => `${this.formatJSONString(key, style)}${style.colon}${this.formatJSONValue(field, style, lineIndent + (style.indent ?? ''))}`);
+            const [open, close] = Array.isArray(value) ? ['[', ']'] : ['{', '}'];
+            if (entries.length === 0) {
+                return open + close;
+            }
+            if (style.indent === null) {
+                return `${open}${entries.join(style.comma)}${close}`;
+            }
+            const inner = `${style.eol}${lineIndent}${style.indent}`;
+            return `${open}${inner}${entries.join(`,${inner}`)}${style.eol}${lineIndent}${close}`;
+        }
+        return typeof value === 'string' ? this.formatJSONString(value, style) : JSON.stringify(value) ?? 'null';
+    }
+
+    private static formatJSONString(value: string, style: JSONStyle): string {
+        const json = JSON.stringify(value);
+        return style.ascii
+            ? json.replace(/[^\x00-\x7f]/g, char => `\\u${char.charCodeAt(0).toString(16).padStart(4, '0')}`)
+            : json;
+    }
+
+    /**
+     * Whitespace at the start of the line holding `offset`
+     */
+    private static getLineIndent(text: string, offset: number): string {
+        const lineStart = text.lastIndexOf('\n', offset - 1) + 1;
+        return text.slice(lineStart, offset).match(/^[ \t]*/)![0];
+    }
+
+    /**
+     * Apply non-overlapping edits, back to front so earlier offsets stay valid
+     */
+    private static applyEdits(text: string, edits: TextEdit[]): string {
+        let result = text;
+        for (const edit of [...edits].sort((a, b) => b.start - a.start)) {
+            result = result.slice(0, edit.start) + edit.newText + result.slice(edit.end);
+        }
+        return result;
+    }
+
+    /**
+     * Items of a CSL-YAML file: the sequence under `references:`, or a
+     * top-level sequence
+     */
+    private static parseYAML(text: string): CSLItem[] {
+        const lines = text.split('\n');
+        const offsets: number[] = [];
+        let offset = 0;
+        for (const line of lines) {
+            offsets.push(offset);
+            offset += line.length + 1;
+        }
+
+        const { first, indent } = this.findYAMLItems(lines);
+        if (first === -1) {
+            return [];
+        }
+
+        const items: CSLItem[] = [];
+        let start = -1;
+        let end = -1;
+        const flush = () => {
+            if (start === -1) {
+                return;
+            }
+            const blockLines = lines.slice(start, end + 1).map(line => line.replace(/\r$/, ''));
+            const data = this.parseYAMLItem(blockLines, indent);
+            const id = isCSLData(data) ? data.id : undefined;
+            if (isCSLData(data) && (typeof id === 'string' || typeof id === 'number')) {
+                items.push({
+                    id: String(id),
+                    data,
+                    raw: blockLines.join('\n'),
+                    start: offsets[start],
+                    end: offsets[end] + lines[end].replace(/\r$/, '').length
+                });
+            }
+            start = -1;
+        };
+
+        for (let i = first; i < lines.length; i++) {
+            const line = lines[i].replace(/\r$/, '');
+            if (line.trim() === '' || /^\s*#/.test(line)) {
+                continue;
+            }
+            const lineIndent = this.indentOf(line);
+            if (lineIndent === indent && /^\s*-(\s|$)/.test(line)) {
+                flush();
+                start = i;
+                end = i;
+            } else if (lineIndent > indent && start !== -1) {
+                end = i;
+            } else {
+                // `...`, another top-level key or a less indented line ends the list
+                break;
+            }
+        }
+        flush();
+
+        return items;
+    }
+
+    /**
+     * First line and indent of the item sequence
+     */
+    private static findYAMLItems(lines: string[]): { first: number; indent: number } {
+        const referencesLine = lines.findIndex(line => /^references:\s*$/.test(line.replace(/\r$/, '')));
+        const from = referencesLine === -1 ? 0 : referencesLine + 1;
+
+        for (let i = from; i < lines.length; i++) {
+            const line = lines[i].replace(/\r$/, '');
+            if (line.trim() === '' || /^\s*#/.test(line) || line === '---') {
+                continue;
+            }
+            if (/^\s*-(\s|$)/.test(line)) {
+                return { first: i, indent: this.indentOf(line) };
+            }
+            if (referencesLine !== -1 || !/^\s*-/.test(line)) {
+                break;
+            }
+        }
+        return { first: -1, indent: 0 };
+    }
+
+    private static mergeYAML(text: string, append: CSLItem[], replace: Map<string, CSLItem>): string {
+        const eol = text.includes('\r\n') ? '\r\n' : '\n';
+        const existing = this.parseYAML(text);
+
+        if (existing.length === 0 && text.trim() === '') {
+            const blocks = append.map(item => this.reindent(item.raw, 0));
+            return ['---', 'references:', ...blocks, '...', ''].join(eol);
+        }
+
+        const lines = text.split('\n');
+        const indent = existing.length > 0
+            ? this.indentOf(text.slice(existing[0].start, existing[0].end))
+            : this.findYAMLItems(lines).indent;
+
+        // Replace from the back so earlier offsets stay valid
+        let result = text;
+        const placed = new Set<CSLItem>();
+        const replacements = existing
+            .map(item => ({ item, replacement: replace.get(item.id) }))
+            .filter((entry): entry is { item: CSLItem; replacement: CSLItem } => !!entry.replacement);
+        const firstMatch = new Map<CSLItem, CSLItem>();
+        for (const { item, replacement } of replacements) {
+            if (!firstMatch.has(replacement)) {
+                firstMatch.set(replacement, item);
+            }
+        }
+
+        for (const { item, replacement } of [...replacements].reverse()) {
+            let newText = '';
+            let end = item.end;
+            if (firstMatch.get(replacement) === item) {
+                newText = this.reindent(replacement.raw, indent).replace(/\n/g, eol);
+            } else {
+                // Drop further matches together with their line break
+                end = Math.min(result.length, end + (result.startsWith('\r\n', end) ? 2 : 1));
+                newText = '';
+            }
+            result = result.slice(0, item.start) + newText + result.slice(end);
+            placed.add(replacement);
+        }
+
+        const toAppend = append.filter(item => !placed.has(item));
+        if (toAppend.length === 0) {
+            return result;
+        }
+
+        const blocks = toAppend.map(item => this.reindent(item.raw, indent).replace(/\n/g, eol)).join(eol) + eol;
+        const remaining = this.parseYAML(result);
+        let insertAt: number;
+        if (remaining.length > 0) {
+            const last = remaining[remaining.length - 1];
+            insertAt = last.end;
+            const lineBreak = result.startsWith('\r\n', insertAt) ? 2 : (result[insertAt] === '\n' ? 1 : 0);
+            if (lineBreak === 0) {
+                return result.slice(0, insertAt) + eol + blocks + result.slice(insertAt);
+            }
+            insertAt += lineBreak;
+        } else {
+            // `references:` without items yet; add them right below it
+            const match = result.match(/^references:[ \t]*\r?\n/m);
+            insertAt = match ? (match.index ?? 0) + match[0].length : result.length;
+            if (!match) {
+                return result + (result.endsWith('\n') ? '' : eol) + 'references:' + eol + blocks;
+            }
+        }
+        return result.slice(0, insertAt) + blocks + result.slice(insertAt);
+    }
+
+    /**
+     * Move a sequence item block to another indent
+     */
+    private static reindent(block: string, indent: number): string {
+        const lines = block.replace(/\r\n/g, '\n').replace(/\n+$/, '').split('\n');
+        const shift = indent - this.indentOf(lines[0]);
+        return lines
+            .map(line => {
+                if (line.trim() === '') {
+                    return '';
+                }
+                return shift >= 0 ? ' '.repeat(shift) + line : line.slice(Math.min(-shift, this.indentOf(line)));
+            })
+            .join('\n');
+    }
+
+    /**
+     * Parse indented lines of the same YAML subset, e.g. an entry of a
+     * Hayagriva file
+     */
+    static parseYAMLBlock(blockLines: string[]): CSLValue {
+        const lines = blockLines
+            .map(line => line.replace(/\r$/, ''))
+            .filter(line => line.trim() !== '' && !/^\s*#/.test(line))
+            .map(line => ({ indent: this.indentOf(line), text: line.trim() }));
+
+        return lines.length === 0 ? null : this.parseYAMLNode(lines, { index: 0 }, lines[0].indent);
+    }
+
+    /**
+     * Parse one sequence item block (a small YAML subset: maps, sequences,
+     * plain/quoted scalars, block scalars and flow collections on one line)
+     */
+    private static parseYAMLItem(blockLines: string[], indent: number): CSLValue {
+        const lines: YAMLLine[] = [];
+        blockLines.forEach((line, i) => {
+            if (line.trim() === '' || /^\s*#/.test(line)) {
+                return;
+            }
+            let text = line.trim();
+            let lineIndent = this.indentOf(line);
+            if (i === 0) {
+                // "- id: x" becomes the key "id: x" of the item's map
+                const content = line.slice(indent + 1).replace(/^\s+/, '');
+                lineIndent = line.length - content.length;
+                text = content;
+            }
+            lines.push({ indent: lineIndent, text });
+        });
+
+        if (lines.length === 0) {
+            return null;
+        }
+        return this.parseYAMLNode(lines, { index: 0 }, lines[0].indent);
+    }
+
+    private static parseYAMLNode(lines: YAMLLine[], position: { index: number }, indent: number): CSLValue {
+        const line = lines[position.index];
+        if (!line) {
+            return null;
+        }
+
+        if (/^[\[{]/.test(line.text)) {
+            position.index++;
+            return this.parseYAMLFlow(line.text, { index: 0 });
+        }
+
+        if (/^-(\s|$)/.test(line.text)) {
+            const sequence: CSLValue[] = [];
+            while (position.index < lines.length && lines[position.index].indent === indent && /^-(\s|$)/.test(lines[position.index].text)) {
+                const current = lines[position.index];
+                const content = current.text.slice(1).replace(/^\s+/, '');
+                if (content === '') {
+                    position.index++;
+                    const next = lines[position.index];
+                    sequence.push(next && next.indent > indent ? this.parseYAMLNode(lines, position, next.indent) : null);
+                } else {
+                    // The content starts a node at its own column
+                    const column = indent + current.text.length - content.length;
+                    lines[position.index] = { indent: column, text: content };
+                    sequence.push(this.parseYAMLNode(lines, position, column));
+                }
+            }
+            return sequence;
+        }
+
+        const keyMatch = line.text.match(/^("[^"]*"|'[^']*'|[^:]+?):(?:\s+(.*))?$/);
+        if (!keyMatch) {
+            position.index++;
+            return this.parseYAMLScalar(line.text);
+        }
+
+        const map: CSLData = {};
+        while (position.index < lines.length && lines[position.index].indent === indent) {
+            const current = lines[position.index];
+            const match = current.text.match(/^("[^"]*"|'[^']*'|[^:]+?):(?:\s+(.*))?$/);
+            if (!match || /^-(\s|$)/.test(current.text)) {
+                break;
+            }
+
+            const key = this.parseYAMLScalar(match[1]);
+            const rest = (match[2] ?? '').trim();
+            position.index++;
+
+            if (/^[|>][+-]?$/.test(rest)) {
+                // Block scalar: the following more indented lines
+                const parts: string[] = [];
+                while (position.index < lines.length && lines[position.index].indent > indent) {
+                    parts.push(lines[position.index].text);
+                    position.index++;
+                }
+                map[key] = parts.join(rest.startsWith('|') ? '\n' : ' ');
+            } else if (/^[\[{]/.test(rest)) {
+                map[key] = this.parseYAMLFlow(rest, { index: 0 });
+            } else if (rest !== '' && !rest.startsWith('#')) {
+                map[key] = this.parseYAMLScalar(rest);
+            } else {
+                const next = lines[position.index];
+                const nested = next && (next.indent > indent || (next.indent === indent && /^-(\s|$)/.test(next.text)));
+                map[key] = nested ? this.parseYAMLNode(lines, position, next.indent) : null;
+            }
+        }
+        return map;
+    }
+
+    /**
+     * A flow collection such as `[{family: Doe, given: Jane}]` or a scalar
+     * inside one, read from `position`
+     */
+    private static parseYAMLFlow(text: string, position: { index: number }): CSLValue {
+        this.skipYAMLSpace(text, position);
+        const open = text[position.index];
+        if (open !== '[' && open !== '{') {
+            return this.parseYAMLFlowScalar(text, position);
+        }
+
+        const close = open === '[' ? ']' : '}';
+        const sequence: CSLValue[] = [];
+        const map: CSLData = {};
+        position.index++;
+        this.skipYAMLSpace(text, position);
+
+        while (position.index < text.length && text[position.index] !== close) {
+            if (open === '[') {
+                sequence.push(this.parseYAMLFlow(text, position));
+            } else {
+                const key = String(this.parseYAMLFlowScalar(text, position));
+                this.skipYAMLSpace(text, position);
+                if (text[position.index] === ':') {
+                    position.index++;
+                    map[key] = this.parseYAMLFlow(text, position);
+                } else {
+                    map[key] = null;
+                }
+            }
+
+            this.skipYAMLSpace(text, position);
+            if (text[position.index] !== ',') {
+                break;
+            }
+            position.index++;
+            this.skipYAMLSpace(text, position);
+        }
+
+        if (text[position.index] === close) {
+            position.index++;
+        }
+        return open === '[' ? sequence : map;
+    }
+
+    /**
+     * A quoted scalar, or a plain one up to the next `,`, bracket or `: `
+     */
+    private static parseYAMLFlowScalar(text: string, position: { index: number }): string {
+        const start = position.index;
+        const quote = text[start];
+        if (quote === '"' || quote === "'") {
+            let i = start + 1;
+            while (i < text.length) {
+                if (quote === '"' && text[i] === '\\') {
+                    i += 2;
+                } else if (text[i] === quote && quote === "'" && text[i + 1] === "'") {
+                    i += 2;
+                } else if (text[i] === quote) {
+                    break;
+                } else {
+                    i++;
+                }
+            }
+            position.index = Math.min(i + 1, text.length);
+            return this.parseYAMLScalar(text.slice(start, position.index));
+        }
+
+        let i = start;
+        while (i < text.length && !/[,\[\]{}]/.test(text[i]) && !(text[i] === ':' && /^(\s|[,\]}]|$)/.test(text.slice(i + 1, i + 2)))) {
+            i++;
+        }
+        position.index = i;
+        return this.parseYAMLScalar(text.slice(start, i));
+    }
+
+    private static skipYAMLSpace(text: string, position: { index: number }): void {
+        while (position.index < text.length && /\s/.test(text[position.index])) {
+            position.index++;
+        }
+    }
+
+    private static parseYAMLScalar(text: string): string {
+        const value = text.trim();
+        if (value.startsWith("'") && value.endsWith("'") && value.length >= 2) {
+            return value.slice(1, -1).replace(/''/g, "'");
+        }
+        if (value.startsWith('"') && value.endsWith('"') && value.length >= 2) {
+            try {
+                return JSON.parse(value);
+            } catch (error) {
+                return value.slice(1, -1);
+            }
+        }
+        // Trailing comments
+        return value.replace(/\s+#.*$/, '');
+    }
+
+    private static indentOf(line: string): number {
+        return line.length - line.replace(/^[ \t]+/, '').length;
+    }
+
+    private static lineOf(text: string, offset: number): number {
+        let line = 0;
+        for (let i = 0; i < offset && i < text.length; i++) {
+            if (text[i] === '\n') {
+                line++;
+            }
+        }
+        return line;
+    }
+}
@@ -8,12 +8,17 @@
  */
 
 import * as vscode from 'vscode';
+import { BibTeXParser } from './bibtexParser';
+import { BibTeXWriter } from './bibtexWriter';
 
 export interface BibTeXEntry {
     key: string;
     type: string;
     fields: Map<string, string>;
     rawText: string;
+    /** Offsets of the entry in the parsed source */
+    start: number;
+    end: number;
 }
 
 export interface DuplicateMatch {
@@ -29,38 +34,16 @@ export class DuplicateDetector {
      * Parse BibTeX string into entries
      */
     static parseBibTeX(bibtex: string): BibTeXEntry[] {
-        const entries: BibTeXEntry[] = [];
-        
-        // Match @type{key, ... }
-        const entryPattern = /@(\w+)\s*\{\s*([^,\s]+)\s*,([^@]*?)(?=\n@|\n*$)/gs;
-        let match;
-        
-        while ((match = entryPattern.exec(bibtex)) !== null) {
-            const type = match[1].toLowerCase();
-            const key = match[2].trim();
-            const fieldsText = match[3];
-            
-            const fields = new Map<string, string>();
-            
-            // Parse fields: field = {value} or field = "value"
-            const fieldPattern = /(\w+)\s*=\s*[{"](.*?)[}"]\s*(?:,|$)/gs;
-            let fieldMatch;
-            
-            while ((fieldMatch = fieldPattern.exec(fieldsText)) !== null) {
-                const fieldName = fieldMatch[1].toLowerCase();
-                const fieldValue = fieldMatch[2].trim();
-                fields.set(fieldName, fieldValue);
-            }
-            
-            entries.push({
-                key,
-                type,
-                fields,
-                rawText: match[0]
-            });
-        }
-        
-        return entries;
+        return BibTeXParser.parse(bibtex).entries
+            .filter(entry => entry.key)
+            .map(entry => ({
+                key: entry.key,
+                type: entry.type,
+                fields: new Map(entry.fields.map(field => [field.name, field.value] as [string, string])),
+                rawText: entry.raw,
+                start: entry.start,
+                end: entry.end
+            }));
     }
 
     /**
@@ -70,9 +53,17 @@ export class DuplicateDetector {
         newBibTeX: string,
         existingBibTeX: string
     ): DuplicateMatch[] {
-        const newEntries = this.parseBibTeX(newBibTeX);
-        const existingEntries = this.parseBibTeX(existingBibTeX);
-        
+        return this.findDuplicates(this.parseBibTeX(newBibTeX), this.parseBibTeX(existingBibTeX));
+    }
+
+    /**
+     * Detect duplicates between parsed entries, e.g. CSL items converted
+     * with CSLBibliography.toDuplicateEntry
+     */
+    static findDuplicates(
+        newEntries: BibTeXEntry[],
+        existingEntries: BibTeXEntry[]
+    ): DuplicateMatch[] {
         const duplicates: DuplicateMatch[] = [];
         
         for (const newEntry of newEntries) {
@@ -305,7 +296,7 @@ export class DuplicateDetector {
     }
 
     /**
-     * Remove duplicate entries from existing BibTeX
+     * Remove duplicate entries from existing BibTeX, leaving everything else untouched
      */
     static removeDuplicatesFromExisting(
         existingBibTeX: string,
@@ -315,14 +306,58 @@ export class DuplicateDetector {
             return existingBibTeX;
         }
 
-        const existingEntries = this.parseBibTeX(existingBibTeX);
-        const duplicateKeys = new Set(duplicates.map(d => d.existingEntry.key));
-        
-        const filtered = existingEntries
-            .filter(entry => !duplicateKeys.has(entry.key))
-            .map(entry => entry.rawText)
-            .join('\n\n');
+        const writer = new BibTeXWriter(existingBibTeX);
+        for (const entry of this.uniqueExistingEntries(duplicates)) {
+            writer.deleteEntry(entry);
+        }
         
-        return filtered;
+        return writer.toString();
+    }
+
+    /**
+     * Replace existing duplicates with their new versions in place.
+     * The first existing match of a new entry is overwritten, further matches
+     * are deleted and new entries without a match are appended.
+     */
+    static replaceDuplicates(
+        writer: BibTeXWriter,
+        newBibTeX: string,
+        duplicates: DuplicateMatch[]
+    ): void {
+        const handled = new Set<number>();
+        const toAppend: string[] = [];
+
+        for (const newEntry of this.parseBibTeX(newBibTeX)) {
+            const matches = this.uniqueExistingEntries(
+                duplicates.filter(d => d.newEntry.key === newEntry.key)
+            ).filter(entry => !handled.has(entry.start));
+
+            if (matches.length === 0) {
+                toAppend.push(newEntry.rawText);
+                continue;
+            }
+
+            const [first, ...rest] = matches;
+            writer.replaceEntry(first, newEntry.rawText);
+            handled.add(first.start);
+
+            for (const entry of rest) {
+                writer.deleteEntry(entry);
+                handled.add(entry.start);
+            }
+        }
+
+        writer.insertEntries(toAppend);
+    }
+
+    /**
+     * Existing entries referenced by duplicate matches, each listed once
+     */
+    private static uniqueExistingEntries(duplicates: DuplicateMatch[]): BibTeXEntry[] {
+        const byStart = new Map<number, BibTeXEntry>();
+        for (const duplicate of duplicates) {
+            byStart.set(duplicate.existingEntry.start, duplicate.existingEntry);
+        }
+        return Array.from(byStart.values());
     }
 }
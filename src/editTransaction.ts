@@ -0,0 +1,300 @@
+/**
+ * Edit Transaction - Apply citation and .bib changes as one WorkspaceEdit
+ * and remember how to revert them
+ */
+
+import * as vscode from 'vscode';
+import { BibTextEdit, BibTeXWriter, DecodedBibFile } from './bibtexWriter';
+
+interface StagedEdit {
+    start: number;
+    end: number;
+    oldText: string;
+    newText: string;
+}
+
+interface StagedDocument {
+    uri: vscode.Uri;
+    document?: vscode.TextDocument;
+    edits: StagedEdit[];
+    /** Created by this transaction, so undo deletes it */
+    created: boolean;
+    /** Save after applying; false when the user has unsaved changes in it */
+    save: boolean;
+    /** Document version right after the transaction was applied */
+    appliedVersion?: number;
+    /** A file that isn't open, written in its own encoding instead of through an editor */
+    file?: DecodedBibFile;
+    /** Bytes written to `file`, to tell whether it changed since */
+    writtenBytes?: Uint8Array;
+}
+
+export class EditTransaction {
+    private readonly documents = new Map<string, StagedDocument>();
+    private applied = false;
+
+    /**
+     * Replace a range of an open document
+     */
+    replace(document: vscode.TextDocument, range: vscode.Range, newText: string): void {
+        this.stageEdits(document, [{
+            start: document.offsetAt(range.start),
+            end: document.offsetAt(range.end),
+            newText
+        }], false);
+    }
+
+    /**
+     * Stage offset-based edits (e.g. from BibTeXWriter) on a document.
+     * Documents without unsaved changes are saved after the edit is applied.
+     */
+    replaceOffsets(document: vscode.TextDocument, edits: BibTextEdit[]): void {
+        this.stageEdits(document, edits, !document.isDirty);
+    }
+
+    /**
+     * Stage offset-based edits on a file that isn't open. It is written
+     * directly, keeping the encoding it was decoded with; VS Code would
+     * read e.g. a Latin-1 file as UTF-8.
+     */
+    editFile(uri: vscode.Uri, decoded: DecodedBibFile, edits: BibTextEdit[]): void {
+        const key = uri.toString();
+        let staged = this.documents.get(key);
+        if (!staged) {
+            staged = { uri, edits: [], created: false, save: false, file: decoded };
+            this.documents.set(key, staged);
+        } else if (!staged.file) {
+            throw new Error(`File is already part of this edit: ${uri.fsPath}`);
+        }
+        this.addEdits(staged, decoded.text, edits, null);
+    }
+
+    /**
+     * Create a new file with the given content
+     */
+    createFile(uri: vscode.Uri, content: string): void {
+        const key = uri.toString();
+        if (this.documents.has(key)) {
+            throw new Error(`File is already part of this edit: ${uri.fsPath}`);
+        }
+        this.documents.set(key, {
+            uri,
+            edits: [{ start: 0, end: 0, oldText: '', newText: content }],
+            created: true,
+            save: true
+        });
+    }
+
+    /**
+     * Whether nothing has been staged
+     */
+    isEmpty(): boolean {
+        return this.documents.size === 0;
+    }
+
+    /**
+     * Apply all staged edits as a single workspace edit
+     */
+    async apply(): Promise<boolean> {
+        if (this.applied) {
+            throw new Error('Edit transaction has already been applied');
+        }
+
+        // Files go first, so they can be restored if the workspace edit fails
+        const files = Array.from(this.documents.values()).filter(staged => staged.file);
+        const written: StagedDocument[] = [];
+        try {
+            for (const staged of files) {
+                const bytes = BibTeXWriter.encode(EditTransaction.applyEdits(staged.file!.text, staged.edits), staged.file!.encoding);
+                await vscode.workspace.fs.writeFile(staged.uri, bytes);
+                staged.writtenBytes = bytes;
+                written.push(staged);
+            }
+        } catch (error) {
+            await this.restoreFiles(written);
+            throw error;
+        }
+
+        const workspaceEdit = new vscode.WorkspaceEdit();
+        for (const staged of this.documents.values()) {
+            if (staged.file) {
+                continue;
+            }
+            if (staged.created) {
+                workspaceEdit.createFile(staged.uri, { ignoreIfExists: true });
+                workspaceEdit.insert(staged.uri, new vscode.Position(0, 0), staged.edits[0].newText);
+                continue;
+            }
+            for (const edit of staged.edits) {
+                workspaceEdit.replace(
+                    staged.uri,
+                    new vscode.Range(staged.document!.positionAt(edit.start), staged.document!.positionAt(edit.end)),
+                    edit.newText
+                );
+            }
+        }
+
+        const success = await vscode.workspace.applyEdit(workspaceEdit);
+        if (!success) {
+            await this.restoreFiles(written);
+            return false;
+        }
+        this.applied = true;
+
+        for (const staged of this.documents.values()) {
+            if (staged.file) {
+                continue;
+            }
+            if (!staged.document) {
+                staged.document = await vscode.workspace.openTextDocument(staged.uri);
+            }
+            if (staged.save) {
+                await staged.document.save();
+            }
+            staged.appliedVersion = staged.document.version;
+        }
+
+        return true;
+    }
+
+    /**
+     * Whether the affected documents are still exactly as this transaction
+     * left them. Files written directly are compared when undoing.
+     */
+    canUndo(): boolean {
+        if (!this.applied) {
+            return false;
+        }
+        return Array.from(this.documents.values()).every(staged =>
+            staged.file !== undefined ||
+            staged.document !== undefined &&
+            !staged.document.isClosed &&
+            staged.document.version === staged.appliedVersion);
+    }
+
+    /**
+     * Revert all edits of this transaction as a single workspace edit
+     */
+    async undo(): Promise<boolean> {
+        if (!this.canUndo()) {
+            return false;
+        }
+
+        const files = Array.from(this.documents.values()).filter(staged => staged.file);
+        for (const staged of files) {
+            if (!(await this.isUnchanged(staged))) {
+                return false;
+            }
+        }
+
+        const workspaceEdit = new vscode.WorkspaceEdit();
+        for (const staged of this.documents.values()) {
+            if (staged.file) {
+                continue;
+            }
+            if (staged.created) {
+                workspaceEdit.deleteFile(staged.uri, { ignoreIfNotExists: true });
+                continue;
+            }
+
+            const document = staged.document!;
+            let shift = 0;
+            for (const edit of staged.edits) {
+                const start = edit.start + shift;
+                workspaceEdit.replace(
+                    staged.uri,
+                    new vscode.Range(document.positionAt(start), document.positionAt(start + edit.newText.length)),
+                    edit.oldText
+                );
+                shift += edit.newText.length - (edit.end - edit.start);
+            }
+        }
+
+        const success = await vscode.workspace.applyEdit(workspaceEdit);
+        if (!success) {
+            return false;
+        }
+        this.applied = false;
+
+        await this.restoreFiles(files);
+        for (const staged of this.documents.values()) {
+            if (staged.save && !staged.created && staged.document) {
+                await staged.document.save();
+            }
+        }
+
+        return true;
+    }
+
+    private stageEdits(document: vscode.TextDocument, edits: BibTextEdit[], save: boolean): void {
+        const key = document.uri.toString();
+        let staged = this.documents.get(key);
+        if (!staged) {
+            staged = { uri: document.uri, document, edits: [], created: false, save };
+            this.documents.set(key, staged);
+        } else if (staged.file) {
+            throw new Error(`File is already part of this edit: ${document.uri.fsPath}`);
+        }
+
+        this.addEdits(staged, document.getText(), edits, document.eol === vscode.EndOfLine.CRLF ? '\r\n' : '\n');
+    }
+
+    /**
+     * Add edits of `text`, with line breaks normalized to `eol` unless it is null
+     */
+    private addEdits(staged: StagedDocument, text: string, edits: BibTextEdit[], eol: string | null): void {
+        for (const edit of edits) {
+            const overlapping = staged.edits.some(existing =>
+                edit.start < existing.end && existing.start < edit.end);
+            if (overlapping) {
+                throw new Error(`Overlapping edits in ${staged.uri.fsPath}`);
+            }
+            staged.edits.push({
+                start: edit.start,
+                end: edit.end,
+                oldText: text.slice(edit.start, edit.end),
+                // VS Code normalizes inserted line breaks; do it here so undo offsets line up
+                newText: eol === null ? edit.newText : edit.newText.replace(/\r?\n/g, eol)
+            });
+        }
+        staged.edits.sort((a, b) => a.start - b.start);
+    }
+
+    /**
+     * Whether a directly written file still has the bytes written to it
+     */
+    private async isUnchanged(staged: StagedDocument): Promise<boolean> {
+        const openDocument = vscode.workspace.textDocuments.find(document => document.uri.toString() === staged.uri.toString());
+        if (openDocument?.isDirty) {
+            return false;
+        }
+        try {
+            const bytes = await vscode.workspace.fs.readFile(staged.uri);
+            return staged.writtenBytes !== undefined && Buffer.from(bytes).equals(Buffer.from(staged.writtenBytes));
+        } catch (error) {
+            return false;
+        }
+    }
+
+    /**
+     * Write directly edited files back as they were decoded
+     */
+    private async restoreFiles(files: StagedDocument[]): Promise<void> {
+        for (const staged of files) {
+            await vscode.workspace.fs.writeFile(staged.uri, BibTeXWriter.encode(staged.file!.text, staged.file!.encoding));
+        }
+    }
+
+    /**
+     * Text with sorted, non-overlapping edits applied
+     */
+    private static applyEdits(text: string, edits: StagedEdit[]): string {
+        let result = '';
+        let position = 0;
+        for (const edit of edits) {
+            result += text.slice(position, edit.start) + edit.newText;
+            position = edit.end;
+        }
+        return result + text.slice(position);
+    }
+}
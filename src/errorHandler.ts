@@ -5,6 +5,19 @@
 import * as vscode from 'vscode';
 import { ErrorContext } from './types';
 
+const REMOTE_ZOTERO_HINT = '\n\nIf Zotero runs on another machine (e.g. the host of WSL, a dev container or an SSH remote), set zotero-cite.zoteroUrl.';
+
+/**
+ * Zotero answered, but with something the extension could not understand.
+ * Keeps the raw payload so it can be logged.
+ */
+export class ZoteroResponseError extends Error {
+    constructor(message: string, public readonly payload: string) {
+        super(message);
+        this.name = 'ZoteroResponseError';
+    }
+}
+
 export class ErrorHandler {
     constructor(private outputChannel: vscode.OutputChannel) {}
 
@@ -12,6 +25,10 @@ export class ErrorHandler {
      * Classify error based on error message and context
      */
     private classifyError(error: Error): ErrorContext {
+        if (error instanceof ZoteroResponseError) {
+            return ErrorContext.InvalidResponse;
+        }
+
         const message = error.message.toLowerCase();
 
         if (message.includes('already open') || message.includes('already in progress') || message.includes('已在运行')) {
@@ -51,7 +68,7 @@ export class ErrorHandler {
     private getUserMessage(context: ErrorContext, originalMessage: string): string {
         switch (context) {
             case ErrorContext.ZoteroNotRunning:
-                return 'Zotero is not running. Please start Zotero and try again.';
+                return 'Zotero is not running. Please start Zotero and try again.' + REMOTE_ZOTERO_HINT;
 
             case ErrorContext.BetterBibTeXNotInstalled:
                 return 'Better BibTeX plugin is not installed. Please install it from Zotero\'s Add-ons Manager.\n\n' +
@@ -68,7 +85,7 @@ export class ErrorHandler {
                            '2. Or complete/cancel the current Zotero picker dialog\n' +
                            '3. If the problem persists, restart Zotero';
                 }
-                return 'Cannot connect to Zotero. Please ensure Zotero is running and Better BibTeX is installed.';
+                return 'Cannot connect to Zotero. Please ensure Zotero is running and Better BibTeX is installed.' + REMOTE_ZOTERO_HINT;
 
             case ErrorContext.FileAccessError:
                 return `Cannot access file. Please check file permissions.\n\nDetails: ${originalMessage}`;
@@ -77,6 +94,9 @@ export class ErrorHandler {
                 // Don't show error message for user cancellation
                 return '';
 
+            case ErrorContext.InvalidResponse:
+                return `Zotero returned an unexpected response. Check the Output panel (Zotero Cite) for the raw response.\n\nDetails: ${originalMessage}`;
+
             case ErrorContext.InvalidConfiguration:
                 return `Invalid configuration. Please check your settings.\n\nDetails: ${originalMessage}`;
 
@@ -96,6 +116,10 @@ export class ErrorHandler {
         this.outputChannel.appendLine(`[${timestamp}] ERROR${contextStr}`);
         this.outputChannel.appendLine(`Error Type: ${context}`);
         this.outputChannel.appendLine(`Message: ${error.message}`);
+
+        if (error instanceof ZoteroResponseError) {
+            this.outputChannel.appendLine(`Raw Response:\n${error.payload}`);
+        }
         
         if (error.stack) {
             this.outputChannel.appendLine(`Stack Trace:\n${error.stack}`);
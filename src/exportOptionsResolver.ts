@@ -0,0 +1,51 @@
+/**
+ * Export Options Resolver - Choose the Better BibTeX translator and export
+ * options from settings or from the root document's preamble
+ */
+
+import * as vscode from 'vscode';
+import { ConfigurationManager } from './configurationManager';
+import { BibliographyResolver } from './bibliographyResolver';
+import { CitationCommandResolver } from './citationCommandResolver';
+import { CSLBibliography } from './cslBibliography';
+import { BibliographyFormat, HayagrivaBibliography } from './hayagrivaBibliography';
+import { ExportOptions, ExportTranslator } from './types';
+
+export class ExportOptionsResolver {
+    constructor(
+        private configManager: ConfigurationManager,
+        private bibliographyResolver: BibliographyResolver
+    ) {}
+
+    /**
+     * Export options for entries cited in a document: the configured
+     * translator, or Better BibLaTeX when the root document loads biblatex
+     * and it is set to "auto". Without a document, "auto" means Better BibTeX.
+     * CSL-JSON and CSL-YAML targets always get the matching CSL translator,
+     * Hayagriva targets Better CSL JSON to convert from.
+     * @param target Bibliography the entries go to; its settings apply when there is no document
+     * @param targetFormat Format of the target when its extension doesn't tell, e.g. Hayagriva
+     */
+    async resolve(document?: vscode.TextDocument, target?: vscode.Uri, targetFormat?: BibliographyFormat | null): Promise<ExportOptions> {
+        const settingsScope = document ? BibliographyResolver.getResourceUri(document) : target;
+        const format = targetFormat ?? (target ? CSLBibliography.getFormat(target.path) : null);
+        let translator = format
+            ? CSLBibliography.getTranslator(HayagrivaBibliography.getExportFormat(format))
+            : this.configManager.getExportTranslator(settingsScope);
+
+        if (translator === 'auto') {
+            translator = document
+                ? ExportOptionsResolver.detectFromPreamble((await this.bibliographyResolver.getRoot(document)).text)
+                : 'Better BibTeX';
+        }
+
+        return { translator, ...this.configManager.getExportOptions(settingsScope) };
+    }
+
+    /**
+     * Better BibLaTeX for biblatex documents, Better BibTeX otherwise
+     */
+    static detectFromPreamble(text: string): ExportTranslator {
+        return CitationCommandResolver.getLoadedPackages(text).has('biblatex') ? 'Better BibLaTeX' : 'Better BibTeX';
+    }
+}
@@ -5,11 +5,27 @@ import { ConfigurationManager } from './configurationManager';
 import { BibTeXFileManager } from './bibtexFileManager';
 import { TriggerDetector } from './triggerDetector';
 import { CitationInserter } from './citationInserter';
+import { getCitationFormatter, getCitationFormatters, isCitationForm } from './citationFormatter';
+import { CitationCommandResolver } from './citationCommandResolver';
+import { BibliographyResolver } from './bibliographyResolver';
 import { ZoteroCiteCompletionProvider } from './completionProvider';
+import { ADD_COMPLETED_CITATION_COMMAND, CitationKeyCompletionProvider } from './citationKeyCompletionProvider';
+import { BibliographyIndex } from './bibliographyIndex';
+import { CitationHoverProvider, FETCH_CITATION_COMMAND } from './citationHoverProvider';
+import { CitationNavigationProvider } from './citationNavigationProvider';
+import { BibEntryFormatter } from './bibEntryFormatter';
+import { CitationDiagnostics, FETCH_ALL_MISSING_COMMAND, PRUNE_UNCITED_COMMAND } from './citationDiagnostics';
 import { StatusBarManager } from './statusBarManager';
 import { BibTeXCleaner } from './bibtexCleaner';
-import { DuplicateDetector } from './duplicateDetector';
-import { TriggerMatch } from './types';
+import { BibTeXEntry, DuplicateDetector } from './duplicateDetector';
+import { CSLBibliography, CSLItem } from './cslBibliography';
+import { BibliographyFormat, HayagrivaBibliography } from './hayagrivaBibliography';
+import { EditTransaction } from './editTransaction';
+import { ZoteroSearchPicker } from './zoteroSearchPicker';
+import { BibliographySync } from './bibliographySync';
+import { AutoExportRegistry } from './autoExportRegistry';
+import { ExportOptionsResolver } from './exportOptionsResolver';
+import { AutoExport, CitationStyle, PickedCitation, TriggerMatch } from './types';
 
 let outputChannel: vscode.OutputChannel;
 let apiClient: ZoteroAPIClient;
@@ -18,8 +34,16 @@ let configManager: ConfigurationManager;
 let bibFileManager: BibTeXFileManager;
 let triggerDetector: TriggerDetector;
 let citationInserter: CitationInserter;
+let commandResolver: CitationCommandResolver;
+let exportOptionsResolver: ExportOptionsResolver;
+let bibliographyResolver: BibliographyResolver;
+let bibliographyIndex: BibliographyIndex;
+let citationDiagnostics: CitationDiagnostics;
+let bibliographySync: BibliographySync;
+let autoExportRegistry: AutoExportRegistry;
 let statusBarManager: StatusBarManager;
 let isProcessingTrigger: boolean = false;
+let lastCitationTransaction: EditTransaction | null = null;
 
 export function activate(context: vscode.ExtensionContext) {
     // Create output channel for logging
@@ -30,10 +54,16 @@ export function activate(context: vscode.ExtensionContext) {
     apiClient = new ZoteroAPIClient();
     errorHandler = new ErrorHandler(outputChannel);
     configManager = new ConfigurationManager();
-    bibFileManager = new BibTeXFileManager(configManager);
+    applyZoteroEndpoint();
+    bibliographyResolver = new BibliographyResolver();
+    bibFileManager = new BibTeXFileManager(configManager, bibliographyResolver);
+    bibliographyIndex = new BibliographyIndex(bibFileManager, bibliographyResolver);
     triggerDetector = new TriggerDetector();
     citationInserter = new CitationInserter();
-    statusBarManager = new StatusBarManager(configManager, apiClient);
+    commandResolver = new CitationCommandResolver(configManager, bibliographyResolver);
+    exportOptionsResolver = new ExportOptionsResolver(configManager, bibliographyResolver);
+    autoExportRegistry = new AutoExportRegistry(apiClient);
+    statusBarManager = new StatusBarManager(configManager, apiClient, bibFileManager, autoExportRegistry);
 
     // Show status bar items
     statusBarManager.show();
@@ -47,14 +77,57 @@ export function activate(context: vscode.ExtensionContext) {
         }
     });
 
-    // Register completion provider for LaTeX files
+    // Register completion provider for LaTeX files and the languages with a citation formatter
+    const formatterLanguages = getCitationFormatters().flatMap(formatter => formatter.languageIds);
     const completionProvider = vscode.languages.registerCompletionItemProvider(
-        { language: 'latex', scheme: 'file' },
+        [
+            ...['latex', ...formatterLanguages].map(language => ({ language, scheme: 'file' })),
+            // Markdown cells of Jupyter notebooks
+            ...formatterLanguages.map(language => ({ language, scheme: 'vscode-notebook-cell' }))
+        ],
         new ZoteroCiteCompletionProvider(),
-        '\\' // Trigger on backslash
+        '\\', // Trigger on backslash
+        ...new Set(getCitationFormatters().map(formatter => formatter.trigger[0]))
     );
     context.subscriptions.push(completionProvider);
 
+    // Register completion provider for keys inside cite commands
+    const keyCompletionProvider = vscode.languages.registerCompletionItemProvider(
+        { language: 'latex' },
+        new CitationKeyCompletionProvider(bibliographyIndex, apiClient),
+        '{', ','
+    );
+    context.subscriptions.push(keyCompletionProvider);
+
+    // Register hover provider showing the entry behind a cite key
+    const hoverProvider = vscode.languages.registerHoverProvider(
+        { language: 'latex' },
+        new CitationHoverProvider(bibliographyIndex)
+    );
+    context.subscriptions.push(hoverProvider);
+
+    // Register definition and reference providers between cite keys and .bib entries
+    const navigationProvider = new CitationNavigationProvider(bibliographyIndex, bibFileManager);
+    context.subscriptions.push(
+        vscode.languages.registerDefinitionProvider({ language: 'latex' }, navigationProvider),
+        vscode.languages.registerReferenceProvider([{ language: 'latex' }, { language: 'bibtex' }], navigationProvider)
+    );
+
+    // Report cited keys missing from the .bib files, with quick fixes to fetch them
+    citationDiagnostics = new CitationDiagnostics(bibliographyIndex, bibFileManager, configManager);
+    context.subscriptions.push(
+        citationDiagnostics,
+        vscode.languages.registerCodeActionsProvider([{ language: 'latex' }, { language: 'bibtex' }], citationDiagnostics, {
+            providedCodeActionKinds: CitationDiagnostics.providedCodeActionKinds
+        })
+    );
+
+    // Serve the entry diffs of the bibliography sync
+    bibliographySync = new BibliographySync(apiClient, bibFileManager);
+    context.subscriptions.push(
+        vscode.workspace.registerTextDocumentContentProvider(BibliographySync.scheme, bibliographySync)
+    );
+
     // Register select .bib file command
     const selectBibFileCommand = vscode.commands.registerCommand(
         'zotero-cite.selectBibFile',
@@ -82,51 +155,146 @@ export function activate(context: vscode.ExtensionContext) {
     );
     context.subscriptions.push(detectDuplicatesCommand);
 
-    // Register manual trigger command
-    const manualTriggerCommand = vscode.commands.registerCommand(
-        'zotero-cite.triggerManually',
+    // Register undo last citation command
+    const undoLastCitationCommand = vscode.commands.registerCommand(
+        'zotero-cite.undoLastCitation',
         async () => {
-            const editor = vscode.window.activeTextEditor;
-            if (!editor) {
-                return;
-            }
+            await undoLastCitation();
+        }
+    );
+    context.subscriptions.push(undoLastCitationCommand);
 
-            const document = editor.document;
-            const position = editor.selection.active;
+    // Register fetch citation command (used by the hover of missing keys)
+    const fetchCitationCommand = vscode.commands.registerCommand(
+        FETCH_CITATION_COMMAND,
+        async (documentUri: string, key: string) => {
+            const document = await vscode.workspace.openTextDocument(vscode.Uri.parse(documentUri));
+            await fetchCitations(document, [key]);
+        }
+    );
+    context.subscriptions.push(fetchCitationCommand);
 
-            // Find \zoteroCite before cursor
-            const lineContent = document.lineAt(position.line).text;
-            const textBeforeCursor = lineContent.substring(0, position.character);
-            const match = textBeforeCursor.match(/\\zoteroCite\b/);
+    // Register command adding the entry of a key completed from Zotero
+    const addCompletedCitationCommand = vscode.commands.registerCommand(
+        ADD_COMPLETED_CITATION_COMMAND,
+        async (documentUri: string, key: string) => {
+            const document = await vscode.workspace.openTextDocument(vscode.Uri.parse(documentUri));
+            if (configManager.isAutoAppendEnabled(document.uri)) {
+                await fetchCitations(document, [key]);
+            }
+        }
+    );
+    context.subscriptions.push(addCompletedCitationCommand);
 
-            if (match && match.index !== undefined) {
-                const startChar = match.index;
-                const endChar = startChar + match[0].length;
+    // Register fetch all missing citations command
+    const fetchAllMissingCommand = vscode.commands.registerCommand(
+        FETCH_ALL_MISSING_COMMAND,
+        async () => {
+            await fetchAllMissingCitations();
+        }
+    );
+    context.subscriptions.push(fetchAllMissingCommand);
 
-                const range = new vscode.Range(
-                    position.line,
-                    startChar,
-                    position.line,
-                    endChar
-                );
+    // Register prune uncited entries command
+    const pruneUncitedCommand = vscode.commands.registerCommand(
+        PRUNE_UNCITED_COMMAND,
+        async (bibFileUri?: vscode.Uri) => {
+            await pruneUncitedEntries(bibFileUri);
+        }
+    );
+    context.subscriptions.push(pruneUncitedCommand);
 
-                const triggerMatch: TriggerMatch = {
-                    range,
-                    position
-                };
+    // Register sync bibliography command
+    const syncBibliographyCommand = vscode.commands.registerCommand(
+        'zotero-cite.syncBibliography',
+        async (bibFileUri?: vscode.Uri) => {
+            await syncBibliography(bibFileUri);
+        }
+    );
+    context.subscriptions.push(syncBibliographyCommand);
 
-                await handleTriggerDetected(document, triggerMatch);
-            }
+    // Register manual trigger command
+    const manualTriggerCommand = vscode.commands.registerCommand(
+        'zotero-cite.triggerManually',
+        async () => {
+            await triggerAtCursor(false);
         }
     );
     context.subscriptions.push(manualTriggerCommand);
 
+    // Register manual trigger command that asks for the citation command first
+    const triggerWithCommandPickCommand = vscode.commands.registerCommand(
+        'zotero-cite.triggerWithCommandPick',
+        async () => {
+            await triggerAtCursor(true);
+        }
+    );
+    context.subscriptions.push(triggerWithCommandPickCommand);
+
+    // Register in-editor Zotero search command
+    const searchZoteroCommand = vscode.commands.registerCommand(
+        'zotero-cite.searchZotero',
+        async () => {
+            await searchZotero();
+        }
+    );
+    context.subscriptions.push(searchZoteroCommand);
+
+    // Register command citing the items selected in Zotero
+    const citeZoteroSelectionCommand = vscode.commands.registerCommand(
+        'zotero-cite.citeZoteroSelection',
+        async () => {
+            await citeZoteroSelection();
+        }
+    );
+    context.subscriptions.push(citeZoteroSelectionCommand);
+
     // Register text document change listener for trigger detection
     const changeListener = triggerDetector.createChangeListener(
         (document, match) => handleTriggerDetected(document, match)
     );
     context.subscriptions.push(changeListener);
 
+    // Reach Zotero at the new URL without reloading the window
+    context.subscriptions.push(
+        vscode.workspace.onDidChangeConfiguration(event => {
+            if (configManager.affectsZoteroEndpoint(event)) {
+                applyZoteroEndpoint();
+                autoExportRegistry.clearCache();
+                statusBarManager.recheckConnection();
+                statusBarManager.refresh(true);
+            }
+        })
+    );
+
+    // Re-resolve TeX roots and declared bibliographies when .tex files change
+    // (or the documents of other languages declaring their own)
+    const declaresBibliographies = (uri: vscode.Uri) => uri.path.toLowerCase().endsWith('.tex') ||
+        getCitationFormatter({ languageId: '', fileName: uri.path }) !== undefined;
+    const invalidateBibliographies = () => {
+        bibliographyResolver.clearCache();
+        statusBarManager.refresh();
+    };
+    context.subscriptions.push(
+        vscode.workspace.onDidSaveTextDocument(document => {
+            if (declaresBibliographies(document.uri)) {
+                invalidateBibliographies();
+            }
+        }),
+        vscode.workspace.onDidCreateFiles(event => {
+            if (event.files.some(declaresBibliographies)) {
+                invalidateBibliographies();
+            }
+        }),
+        vscode.workspace.onDidDeleteFiles(event => {
+            if (event.files.some(declaresBibliographies)) {
+                invalidateBibliographies();
+            }
+        }),
+        // Notebooks declare bibliographies in their metadata and front matter cells
+        vscode.workspace.onDidSaveNotebookDocument(() => invalidateBibliographies())
+    );
+
     outputChannel.appendLine('Extension initialization complete');
 }
 
@@ -140,32 +308,286 @@ export function getOutputChannel(): vscode.OutputChannel {
     return outputChannel;
 }
 
+/**
+ * Point the API client at the configured Zotero URL, keeping the previous
+ * one if the setting is invalid
+ */
+function applyZoteroEndpoint(): void {
+    try {
+        apiClient.configure(configManager.getZoteroUrl(), configManager.getRequestTimeout());
+        outputChannel.appendLine(`Using Zotero at ${apiClient.getBaseUrl()}`);
+    } catch (error) {
+        const message = error instanceof Error ? error.message : String(error);
+        outputChannel.appendLine(`${message}; still using ${apiClient.getBaseUrl()}`);
+        vscode.window.showWarningMessage(`${message}. Check the zotero-cite.zoteroUrl setting.`);
+    }
+}
+
+/**
+ * Handle \zoteroCite (or \zoteroCite*, or another language's trigger) right before the cursor
+ */
+async function triggerAtCursor(chooseCommand: boolean): Promise<void> {
+    const editor = vscode.window.activeTextEditor;
+    if (!editor) {
+        return;
+    }
+
+    const document = editor.document;
+
+    // Find \zoteroCite (or the language's trigger) before cursor
+    const match = triggerDetector.findTriggerBefore(document, editor.selection.active);
+    if (match) {
+        await handleTriggerDetected(document, {
+            ...match,
+            chooseCommand: chooseCommand || match.chooseCommand
+        });
+    }
+}
+
+/**
+ * Revert the last inserted citation together with its .bib changes
+ */
+async function undoLastCitation(): Promise<void> {
+    if (!lastCitationTransaction) {
+        vscode.window.showInformationMessage('No Zotero citation to undo');
+        return;
+    }
+
+    if (!lastCitationTransaction.canUndo()) {
+        lastCitationTransaction = null;
+        vscode.window.showWarningMessage(
+            'The documents have changed since the last Zotero citation was inserted. Use Undo in the editor instead.'
+        );
+        return;
+    }
+
+    const success = await lastCitationTransaction.undo();
+    lastCitationTransaction = null;
+
+    if (success) {
+        outputChannel.appendLine('Reverted last Zotero citation');
+        vscode.window.showInformationMessage('Reverted last Zotero citation');
+    } else {
+        vscode.window.showErrorMessage('Failed to revert last Zotero citation');
+    }
+}
+
+/**
+ * The .bib file a command works on: the open .bib file, else the active
+ * project's one, else prompt user
+ */
+async function getBibFileForCommand(): Promise<vscode.Uri | null> {
+    const activeDocument = vscode.window.activeTextEditor?.document;
+    if (activeDocument && activeDocument.uri.path.toLowerCase().endsWith('.bib')) {
+        return activeDocument.uri;
+    }
+
+    let bibFileUri = statusBarManager.getCurrentBibFile();
+    if (!bibFileUri) {
+        bibFileUri = await bibFileManager.selectBibFile(activeDocument);
+        if (bibFileUri) {
+            statusBarManager.setCurrentBibFile(bibFileUri);
+        }
+    }
+    return bibFileUri;
+}
+
+/**
+ * List .bib entries no .tex file cites and remove the selected ones in
+ * one undoable edit
+ */
+async function pruneUncitedEntries(bibFileUri?: vscode.Uri): Promise<void> {
+    try {
+        const targetUri = bibFileUri ?? await getBibFileForCommand();
+        if (!targetUri) {
+            return;
+        }
+
+        if (bibFileManager.getCSLFormat(targetUri)) {
+            vscode.window.showInformationMessage('Removing uncited entries works with .bib files only');
+            return;
+        }
+
+        const autoExport = await findAutoExport(targetUri);
+        if (autoExport === null) {
+            return;
+        }
+        if (autoExport) {
+            vscode.window.showInformationMessage(
+                `${targetUri.fsPath.split(/[/\\]/).pop()} is a Better BibTeX auto-export; remove the items from the collection in Zotero instead`
+            );
+            return;
+        }
+
+        const { uncited, citesAll } = await vscode.window.withProgress(
+            { location: vscode.ProgressLocation.Notification, title: 'Collecting citations...' },
+            () => bibliographyIndex.findUncitedEntries(targetUri)
+        );
+        const fileName = targetUri.fsPath.split(/[/\\]/).pop();
+
+        if (citesAll) {
+            vscode.window.showInformationMessage(`\\nocite{*} cites every entry of ${fileName}`);
+            return;
+        }
+        if (uncited.length === 0) {
+            vscode.window.showInformationMessage(`Every entry in ${fileName} is cited`);
+            return;
+        }
+
+        const selected = await vscode.window.showQuickPick(
+            uncited.map(({ entry, keyRange }) => ({
+                label: entry.key,
+                description: BibEntryFormatter.getShortReference(entry),
+                detail: `${BibEntryFormatter.getTitle(entry) ?? ''}  (line ${keyRange.start.line + 1})`,
+                key: entry.key
+            })),
+            {
+                canPickMany: true,
+                placeHolder: `${uncited.length} uncited entr${uncited.length === 1 ? 'y' : 'ies'} in ${fileName}. Select entries to remove`
+            }
+        );
+        if (!selected || selected.length === 0) {
+            return;
+        }
+
+        const transaction = new EditTransaction();
+        await bibFileManager.removeEntries(targetUri, new Set(selected.map(item => item.key)), transaction);
+        if (!(await transaction.apply())) {
+            throw new Error(`Failed to update .bib file: ${targetUri.fsPath}`);
+        }
+
+        outputChannel.appendLine(`Removed uncited entries from ${targetUri.fsPath}: ${selected.map(item => item.key).join(', ')}`);
+        const action = await vscode.window.showInformationMessage(
+            `Removed ${selected.length} uncited entr${selected.length === 1 ? 'y' : 'ies'} from ${fileName}`,
+            'Undo'
+        );
+        if (action === 'Undo') {
+            if (!transaction.canUndo() || !(await transaction.undo())) {
+                vscode.window.showWarningMessage('The .bib file has changed since. Use Undo in the editor instead.');
+            }
+        }
+    } catch (error) {
+        outputChannel.appendLine(`Error removing uncited entries: ${error instanceof Error ? error.message : error}`);
+        await errorHandler.handleError(
+            error instanceof Error ? error : new Error(String(error)),
+            'Removing uncited entries'
+        );
+    }
+}
+
+/**
+ * Compare a .bib file with Zotero and rewrite the entries the user accepts
+ * in one undoable edit
+ */
+async function syncBibliography(bibFileUri?: vscode.Uri): Promise<void> {
+    try {
+        const targetUri = bibFileUri ?? await getBibFileForCommand();
+        if (!targetUri) {
+            return;
+        }
+
+        if (!(await apiClient.checkAvailability())) {
+            throw new Error('Zotero is not running or Better BibTeX plugin is not installed. Please start Zotero and ensure Better BibTeX is installed.');
+        }
+
+        if (bibFileManager.getCSLFormat(targetUri)) {
+            vscode.window.showInformationMessage('Syncing with Zotero works with .bib files only');
+            return;
+        }
+
+        const autoExport = await findAutoExport(targetUri);
+        if (autoExport === null) {
+            return;
+        }
+        if (autoExport) {
+            vscode.window.showInformationMessage(
+                `${targetUri.fsPath.split(/[/\\]/).pop()} is a Better BibTeX auto-export; Zotero keeps it up to date`
+            );
+            return;
+        }
+
+        // Export as for the active LaTeX document, so entries compare like for like
+        const activeDocument = vscode.window.activeTextEditor?.document;
+        const exportOptions = await exportOptionsResolver.resolve(
+            activeDocument && bibFileManager.isTeXDocument(activeDocument) ? activeDocument : undefined,
+            targetUri
+        );
+
+        const { updates, notInZotero } = await vscode.window.withProgress(
+            { location: vscode.ProgressLocation.Notification, title: 'Exporting entries from Zotero...' },
+            () => bibliographySync.findUpdates(targetUri, exportOptions)
+        );
+        const fileName = targetUri.fsPath.split(/[/\\]/).pop();
+
+        outputChannel.appendLine(`Sync of ${targetUri.fsPath}: ${updates.length} changed, ${notInZotero.length} not in Zotero`);
+        for (const { current, changes } of updates) {
+            outputChannel.appendLine(`  ${current.entry.key}: ${BibliographySync.describeChanges(changes)}`);
+        }
+        if (notInZotero.length > 0) {
+            outputChannel.appendLine(`  Not in Zotero: ${notInZotero.map(located => located.entry.key).join(', ')}`);
+        }
+
+        if (updates.length === 0 && notInZotero.length === 0) {
+            vscode.window.showInformationMessage(`${fileName} is up to date with Zotero`);
+            return;
+        }
+
+        const accepted = await bibliographySync.pickChanges(targetUri, updates, notInZotero);
+        if (!accepted || (accepted.updates.length === 0 && accepted.removals.length === 0)) {
+            return;
+        }
+
+        const transaction = new EditTransaction();
+        await bibFileManager.updateEntries(
+            targetUri,
+            new Map(accepted.updates.map(update => [update.current.entry.key, update.updated.raw])),
+            new Set(accepted.removals),
+            transaction
+        );
+        if (!(await transaction.apply())) {
+            throw new Error(`Failed to update .bib file: ${targetUri.fsPath}`);
+        }
+
+        const updatedKeys = accepted.updates.map(update => update.current.entry.key);
+        outputChannel.appendLine(`Updated from Zotero: ${updatedKeys.join(', ') || 'none'}; removed: ${accepted.removals.join(', ') || 'none'}`);
+        const removed = accepted.removals.length > 0
+            ? ` and removed ${accepted.removals.length} entr${accepted.removals.length === 1 ? 'y' : 'ies'}`
+            : '';
+        const action = await vscode.window.showInformationMessage(
+            `Updated ${updatedKeys.length} entr${updatedKeys.length === 1 ? 'y' : 'ies'} in ${fileName}${removed}`,
+            'Undo'
+        );
+        if (action === 'Undo') {
+            if (!transaction.canUndo() || !(await transaction.undo())) {
+                vscode.window.showWarningMessage('The .bib file has changed since. Use Undo in the editor instead.');
+            }
+        }
+    } catch (error) {
+        outputChannel.appendLine(`Error syncing bibliography: ${error instanceof Error ? error.message : error}`);
+        await errorHandler.handleError(
+            error instanceof Error ? error : new Error(String(error)),
+            'Syncing bibliography'
+        );
+    }
+}
+
 /**
  * Detect duplicates in a .bib file
  */
 async function detectDuplicatesInBibFile(): Promise<void> {
     try {
-        // Get current .bib file from status bar or prompt user
-        let bibFileUri = statusBarManager.getCurrentBibFile();
-        
+        const bibFileUri = await getBibFileForCommand();
         if (!bibFileUri) {
-            bibFileUri = await bibFileManager.selectBibFile();
-            
-            if (!bibFileUri) {
-                return;
-            }
-            
-            statusBarManager.setCurrentBibFile(bibFileUri);
+            return;
         }
 
         outputChannel.appendLine(`Detecting duplicates in: ${bibFileUri.fsPath}`);
         
-        // Read BibTeX file
-        const bibTeXContent = await vscode.workspace.fs.readFile(bibFileUri);
-        const bibTeXString = Buffer.from(bibTeXContent).toString('utf8');
-        
-        // Parse entries
-        const entries = DuplicateDetector.parseBibTeX(bibTeXString);
+        // Parse entries; CSL and Hayagriva items are compared on the same fields
+        const format = await bibFileManager.getBibliographyFormat(bibFileUri);
+        const entries = format
+            ? (await bibFileManager.parseCSLItems(bibFileUri)).map(item => toDuplicateEntry(item, format))
+            : DuplicateDetector.parseBibTeX((await bibFileManager.readBibFile(bibFileUri)).text);
         outputChannel.appendLine(`Found ${entries.length} entries`);
         
         // Find duplicates within the file
@@ -213,6 +635,210 @@ async function detectDuplicatesInBibFile(): Promise<void> {
     }
 }
 
+/**
+ * Export entries for keys cited in a document from Zotero and append them
+ * to the document's .bib file
+ * @returns The keys whose entries were added and the keys Zotero doesn't
+ * know, or null if fetching failed or was cancelled
+ */
+async function fetchCitations(
+    document: vscode.TextDocument,
+    keys: string[]
+): Promise<{ fetched: string[]; unknown: string[] } | null> {
+    try {
+        if (!(await apiClient.checkAvailability())) {
+            throw new Error('Zotero is not running or Better BibTeX plugin is not installed. Please start Zotero and ensure Better BibTeX is installed.');
+        }
+
+        // The target decides the format entries are exported in
+        const bibFileUri = await bibFileManager.selectBibFile(document);
+        if (!bibFileUri) {
+            outputChannel.appendLine('User cancelled .bib file selection');
+            return null;
+        }
+
+        outputChannel.appendLine(`Fetching ${keys.length} citation(s) from Zotero: ${keys.join(', ')}`);
+        const format = await bibFileManager.getBibliographyFormat(bibFileUri, document);
+        const exportOptions = await exportOptionsResolver.resolve(document, bibFileUri, format);
+        const { bibtex, missingKeys } = await apiClient.exportAvailableBibTeX(keys, exportOptions);
+        const cleanedBibtex = cleanExport(bibtex, format, BibliographyResolver.getResourceUri(document));
+        const fetchedKeys = format
+            ? parseExport(cleanedBibtex, format).map(item => item.id)
+            : DuplicateDetector.parseBibTeX(cleanedBibtex).map(entry => entry.key);
+
+        citationDiagnostics.setUnknownKeys(missingKeys, fetchedKeys);
+        if (missingKeys.length > 0) {
+            outputChannel.appendLine(`Not found in Zotero: ${missingKeys.join(', ')}`);
+        }
+
+        if (fetchedKeys.length === 0) {
+            vscode.window.showWarningMessage(`Zotero has no entries for: ${keys.join(', ')}`);
+            return { fetched: [], unknown: missingKeys };
+        }
+
+        const autoExport = await findAutoExport(bibFileUri);
+        if (autoExport === null) {
+            return null;
+        }
+        if (autoExport) {
+            const added = await addToAutoExport(bibFileUri, autoExport, fetchedKeys);
+            return added ? { fetched: fetchedKeys, unknown: missingKeys } : null;
+        }
+
+        const existingKeys = await bibFileManager.parseBibFile(bibFileUri);
+        if (format) {
+            const items = parseExport(cleanedBibtex, format).filter(item => !existingKeys.has(item.id));
+            await bibFileManager.mergeCSLItems(bibFileUri, format, items);
+        } else {
+            await bibFileManager.appendEntries(bibFileUri, cleanedBibtex, existingKeys);
+        }
+        await statusBarManager.refresh();
+
+        outputChannel.appendLine(`Added ${fetchedKeys.join(', ')} to ${bibFileUri.fsPath}`);
+        const notFound = missingKeys.length > 0 ? ` (not found in Zotero: ${missingKeys.join(', ')})` : '';
+        vscode.window.showInformationMessage(
+            `Added ${fetchedKeys.length} entr${fetchedKeys.length === 1 ? 'y' : 'ies'} from Zotero to ${bibFileUri.fsPath.split(/[/\\]/).pop()}${notFound}`
+        );
+        return { fetched: fetchedKeys, unknown: missingKeys };
+    } catch (error) {
+        outputChannel.appendLine(`Error fetching citations: ${error instanceof Error ? error.message : error}`);
+        await errorHandler.handleError(
+            error instanceof Error ? error : new Error(String(error)),
+            'Fetching citations'
+        );
+        return null;
+    }
+}
+
+/**
+ * The Better BibTeX auto-export writing to a .bib file, if any. When Zotero
+ * can't tell, the user is warned and decides whether to edit the file anyway.
+ * @returns null if the user cancelled
+ */
+async function findAutoExport(bibFileUri: vscode.Uri): Promise<AutoExport | undefined | null> {
+    try {
+        return await autoExportRegistry.find(bibFileUri);
+    } catch (error) {
+        const message = error instanceof Error ? error.message : String(error);
+        outputChannel.appendLine(message);
+
+        const fileName = bibFileUri.fsPath.split(/[/\\]/).pop();
+        const action = await vscode.window.showWarningMessage(
+            `${message}. If ${fileName} is an auto-export, Better BibTeX will overwrite changes to it at its next export.`,
+            'Edit Anyway'
+        );
+        if (action !== 'Edit Anyway') {
+            outputChannel.appendLine(`User cancelled editing ${bibFileUri.fsPath} without knowing whether it is an auto-export`);
+            return null;
+        }
+        return undefined;
+    }
+}
+
+/**
+ * Get cited items into a .bib file that Better BibTeX auto-exports, which
+ * can't be appended to: a library export will contain them anyway, items
+ * missing from a collection export can be added to the collection
+ * @returns false if the user cancelled
+ */
+async function addToAutoExport(bibFileUri: vscode.Uri, autoExport: AutoExport, keys: string[]): Promise<boolean> {
+    const fileName = bibFileUri.fsPath.split(/[/\\]/).pop();
+    const existingKeys = await bibFileManager.parseBibFile(bibFileUri);
+    const missing = keys.filter(key => !existingKeys.has(key));
+
+    if (missing.length === 0) {
+        return true;
+    }
+
+    if (autoExport.type === 'library') {
+        vscode.window.showInformationMessage(
+            `${fileName} is a Better BibTeX auto-export of your library; the entries appear there at its next export`
+        );
+        return true;
+    }
+
+    const collection = autoExport.collection;
+    const actions = collection ? ['Add to Collection', 'Cite Only'] : ['Cite Only'];
+    const action = await vscode.window.showWarningMessage(
+        `${fileName} is managed by a Better BibTeX auto-export${collection ? ` of collection ${collection}` : ''}, ` +
+        `which would overwrite entries added to the file. ${missing.join(', ')} ${missing.length === 1 ? 'is' : 'are'} not in the exported collection.`,
+        { modal: true },
+        ...actions
+    );
+    if (!action) {
+        outputChannel.appendLine('User cancelled citing items missing from the auto-exported collection');
+        return false;
+    }
+
+    if (action === 'Add to Collection' && collection) {
+        try {
+            await apiClient.addToCollection(collection, missing);
+            outputChannel.appendLine(`Added ${missing.join(', ')} to Zotero collection ${collection}`);
+            vscode.window.showInformationMessage(`Added ${missing.length} item(s) to ${collection}; Better BibTeX will update ${fileName}`);
+        } catch (error) {
+            const message = error instanceof Error ? error.message : String(error);
+            outputChannel.appendLine(message);
+            vscode.window.showWarningMessage(`${message}. Add the items to the collection in Zotero.`);
+        }
+    }
+    return true;
+}
+
+/**
+ * Fetch every cited key missing from its project's .bib file, one batch
+ * per target .bib file
+ */
+async function fetchAllMissingCitations(): Promise<void> {
+    const batches = await vscode.window.withProgress(
+        { location: vscode.ProgressLocation.Notification, title: 'Looking for missing citations...' },
+        async () => {
+            const byBibFile = new Map<string, { document: vscode.TextDocument; keys: Set<string> }>();
+
+            for (const file of await bibliographyIndex.getCitingFiles()) {
+                const document = await vscode.workspace.openTextDocument(file.uri);
+                const missing = await citationDiagnostics.findMissingKeys(document);
+                if (missing.length === 0) {
+                    continue;
+                }
+
+                const target = await bibFileManager.getTargetBibFile(document);
+                const batchId = target?.uri.toString() ?? document.uri.toString();
+                const batch = byBibFile.get(batchId) ?? { document, keys: new Set<string>() };
+                missing.forEach(({ key }) => batch.keys.add(key));
+                byBibFile.set(batchId, batch);
+            }
+
+            return [...byBibFile.values()];
+        }
+    );
+
+    if (batches.length === 0) {
+        vscode.window.showInformationMessage('No missing citations found');
+        return;
+    }
+
+    for (const { document, keys } of batches) {
+        const result = await fetchCitations(document, [...keys]);
+        if (!result) {
+            return;
+        }
+    }
+}
+
+/**
+ * Delete the \zoteroCite trigger after the user cancelled
+ */
+async function removeTrigger(document: vscode.TextDocument, match: TriggerMatch): Promise<void> {
+    const editor = [vscode.window.activeTextEditor, ...vscode.window.visibleTextEditors]
+        .find(candidate => candidate?.document === document);
+    if (editor) {
+        await editor.edit((editBuilder) => {
+            editBuilder.delete(match.range);
+        });
+        outputChannel.appendLine('Removed \\zoteroCite trigger after cancellation');
+    }
+}
+
 /**
  * Handle \zoteroCite trigger detection
  */
@@ -240,165 +866,122 @@ async function handleTriggerDetected(
 
         outputChannel.appendLine('Zotero is available');
 
+        // Determine the citation command (\cite, \citep, \parencite, ...)
+        let citationCommand = await commandResolver.resolve(document);
+        if (match.chooseCommand) {
+            const picked = await commandResolver.pickCommand(citationCommand, document);
+            if (!picked) {
+                outputChannel.appendLine('User cancelled citation command selection');
+                await removeTrigger(document, match);
+                return;
+            }
+            citationCommand = picked;
+        }
+        outputChannel.appendLine(isCitationForm(citationCommand)
+            ? `Using citation form: ${citationCommand}`
+            : `Using citation command: \\${citationCommand}`);
+
         // Step 2: Invoke CAYW picker
         outputChannel.appendLine('Opening Zotero picker...');
         
         // Set picker in use flag to prevent concurrent API calls
         statusBarManager.setPickerInUse(true);
         
-        let citationKeys: string[];
+        let citations: PickedCitation[];
         try {
-            citationKeys = await apiClient.invokePicker();
+            citations = await apiClient.invokePicker();
         } finally {
             // Always clear the flag, even if picker fails
             statusBarManager.setPickerInUse(false);
         }
 
         // User cancelled
-        if (citationKeys.length === 0) {
+        if (citations.length === 0) {
             outputChannel.appendLine('User cancelled picker');
             
             // Delete the \zoteroCite trigger since user cancelled
-            const editor = vscode.window.activeTextEditor;
-            if (editor && editor.document === document) {
-                await editor.edit((editBuilder) => {
-                    editBuilder.delete(match.range);
-                });
-                outputChannel.appendLine('Removed \\zoteroCite trigger after cancellation');
-            }
-            
-            isProcessingTrigger = false;
+            await removeTrigger(document, match);
             return;
         }
 
-        outputChannel.appendLine(`Selected ${citationKeys.length} citation(s): ${citationKeys.join(', ')}`);
-
-        // Step 3: Fetch BibTeX entries using citation keys
-        outputChannel.appendLine('Fetching BibTeX entries...');
-        const bibtex = await apiClient.exportBibTeX(citationKeys);
-
-        if (!bibtex) {
-            throw new Error('Failed to fetch BibTeX entries from Zotero');
+        // Steps 3-6: fetch entries, update the .bib file and replace the trigger
+        const result = await insertCitations(document, match.range, citations, citationCommand);
+        if (result === 'noBibFile') {
+            // Delete the \zoteroCite trigger since user cancelled
+            await removeTrigger(document, match);
         }
 
-        outputChannel.appendLine(`Fetched BibTeX (${bibtex.length} characters)`);
+    } catch (error) {
+        outputChannel.appendLine(`Error: ${error instanceof Error ? error.message : error}`);
+        await errorHandler.handleError(
+            error instanceof Error ? error : new Error(String(error)),
+            'Citation insertion'
+        );
+    } finally {
+        // Always clear the flag, even if there was an error
+        isProcessingTrigger = false;
+    }
+}
 
-        // Clean BibTeX entries (remove annotation and other unwanted fields)
-        const cleanedBibtex = BibTeXCleaner.cleanBibTeX(bibtex);
-        outputChannel.appendLine(`Cleaned BibTeX (removed fields: ${BibTeXCleaner.getRemovedFields().join(', ')})`);
-        outputChannel.appendLine(`Cleaned BibTeX (${cleanedBibtex.length} characters)`);
+/**
+ * Search the Zotero library in a quick pick and cite the selected items at
+ * the cursor, replacing any selected text
+ */
+async function searchZotero(): Promise<void> {
+    await citeAtSelection(
+        () => new ZoteroSearchPicker(apiClient).pick(),
+        () => outputChannel.appendLine('User cancelled Zotero search')
+    );
+}
 
-        // Step 4: Determine target .bib file
-        outputChannel.appendLine('Selecting .bib file...');
-        
-        // First try to get from status bar
-        let bibFileUri = statusBarManager.getCurrentBibFile();
-        
-        // If no file selected in status bar, prompt user
-        if (!bibFileUri) {
-            bibFileUri = await bibFileManager.selectBibFile();
-            
-            if (!bibFileUri) {
-                // User cancelled file selection
-                outputChannel.appendLine('User cancelled .bib file selection');
-                
-                // Delete the \zoteroCite trigger since user cancelled
-                const editor = vscode.window.activeTextEditor;
-                if (editor && editor.document === document) {
-                    await editor.edit((editBuilder) => {
-                        editBuilder.delete(match.range);
-                    });
-                    outputChannel.appendLine('Removed \\zoteroCite trigger after cancellation');
-                }
-                
-                isProcessingTrigger = false;
-                return;
-            }
-            
-            // Update status bar with selected file
-            statusBarManager.setCurrentBibFile(bibFileUri);
-        }
+/**
+ * Cite the items selected in the Zotero pane at the cursor, replacing any
+ * selected text
+ */
+async function citeZoteroSelection(): Promise<void> {
+    await citeAtSelection(
+        () => apiClient.getSelectedCitations(),
+        () => vscode.window.showInformationMessage('No items are selected in Zotero')
+    );
+}
 
-        outputChannel.appendLine(`Using .bib file: ${bibFileUri.fsPath}`);
+/**
+ * Insert citations from `getCitations` in place of the active editor's
+ * selection, without a \zoteroCite trigger
+ */
+async function citeAtSelection(
+    getCitations: () => Promise<PickedCitation[]>,
+    onNothingPicked: () => void
+): Promise<void> {
+    const editor = vscode.window.activeTextEditor;
+    if (!editor) {
+        vscode.window.showInformationMessage('Open a document to insert citations into');
+        return;
+    }
 
-        // Step 5: Check for duplicates and append entries
-        if (configManager.isAutoAppendEnabled()) {
-            outputChannel.appendLine('Parsing existing .bib file...');
-            const existingKeys = await bibFileManager.parseBibFile(bibFileUri);
-            outputChannel.appendLine(`Found ${existingKeys.size} existing entries`);
+    if (isProcessingTrigger) {
+        outputChannel.appendLine('Already processing a trigger, ignoring...');
+        return;
+    }
 
-            // Read existing BibTeX content for duplicate detection
-            const existingBibTeX = await vscode.workspace.fs.readFile(bibFileUri);
-            const existingBibTeXString = Buffer.from(existingBibTeX).toString('utf8');
+    isProcessingTrigger = true;
+    const document = editor.document;
+    const range = new vscode.Range(editor.selection.start, editor.selection.end);
 
-            // Detect potential duplicates
-            outputChannel.appendLine('Checking for potential duplicates...');
-            const duplicates = DuplicateDetector.detectDuplicates(cleanedBibtex, existingBibTeXString);
-            
-            if (duplicates.length > 0) {
-                outputChannel.appendLine(`Found ${duplicates.length} potential duplicate(s)`);
-                
-                // Show dialog to user
-                const action = await DuplicateDetector.showDuplicateDialog(duplicates);
-                
-                if (action === 'cancel') {
-                    outputChannel.appendLine('User cancelled due to duplicates');
-                    isProcessingTrigger = false;
-                    return;
-                }
-                
-                if (action === 'skip') {
-                    // Filter out duplicates from new entries
-                    const filteredBibtex = DuplicateDetector.filterDuplicates(cleanedBibtex, duplicates, 'skip');
-                    
-                    if (filteredBibtex.trim().length === 0) {
-                        vscode.window.showInformationMessage('All selected entries already exist in the .bib file');
-                        isProcessingTrigger = false;
-                        return;
-                    }
-                    
-                    outputChannel.appendLine('Appending non-duplicate entries...');
-                    await bibFileManager.appendEntries(bibFileUri, filteredBibtex, existingKeys);
-                } else if (action === 'replace') {
-                    // Remove duplicates from existing file, then append new entries
-                    const cleanedExisting = DuplicateDetector.removeDuplicatesFromExisting(existingBibTeXString, duplicates);
-                    
-                    // Write cleaned existing + new entries
-                    const combined = cleanedExisting + '\n\n' + cleanedBibtex;
-                    await vscode.workspace.fs.writeFile(bibFileUri, Buffer.from(combined, 'utf8'));
-                    
-                    outputChannel.appendLine('Replaced duplicate entries with new versions');
-                } else {
-                    // keep-both: append all entries
-                    outputChannel.appendLine('Appending all entries (keeping duplicates)...');
-                    await bibFileManager.appendEntries(bibFileUri, cleanedBibtex, new Set());
-                }
-            } else {
-                outputChannel.appendLine('No duplicates found');
-                outputChannel.appendLine('Appending new entries...');
-                await bibFileManager.appendEntries(bibFileUri, cleanedBibtex, existingKeys);
-            }
-            
-            outputChannel.appendLine('BibTeX entries appended successfully');
+    try {
+        if (!(await apiClient.checkAvailability())) {
+            throw new Error('Zotero is not running or Better BibTeX plugin is not installed. Please start Zotero and ensure Better BibTeX is installed.');
         }
 
-        // Step 6: Replace \zoteroCite with \cite{keys}
-        outputChannel.appendLine('Replacing trigger with citation command...');
-        const success = await citationInserter.replaceTrigger(
-            document,
-            match.range,
-            citationKeys
-        );
+        const citationCommand = await commandResolver.resolve(document);
 
-        if (success) {
-            outputChannel.appendLine('Citation inserted successfully');
-            vscode.window.showInformationMessage(
-                `Inserted ${citationKeys.length} citation(s) from Zotero`
-            );
-        } else {
-            throw new Error('Failed to replace trigger with citation command');
+        const citations = await getCitations();
+        if (citations.length === 0) {
+            onNothingPicked();
+            return;
         }
 
+        await insertCitations(document, range, citations, citationCommand);
     } catch (error) {
         outputChannel.appendLine(`Error: ${error instanceof Error ? error.message : error}`);
         await errorHandler.handleError(
@@ -406,7 +989,247 @@ async function handleTriggerDetected(
             'Citation insertion'
         );
     } finally {
-        // Always clear the flag, even if there was an error
         isProcessingTrigger = false;
     }
 }
+
+/**
+ * Fetch the BibTeX of picked citations, add it to the document's .bib file
+ * and replace `range` with the citation, all as one undoable transaction
+ * @returns 'noBibFile' if the user cancelled choosing a .bib file,
+ * 'cancelled' if they cancelled over duplicates or there was nothing to add
+ */
+async function insertCitations(
+    document: vscode.TextDocument,
+    range: vscode.Range,
+    citations: PickedCitation[],
+    citationCommand: CitationStyle
+): Promise<'inserted' | 'noBibFile' | 'cancelled'> {
+    const citationKeys = citations.map(c => c.key);
+    outputChannel.appendLine(`Selected ${citationKeys.length} citation(s): ${citationKeys.join(', ')}`);
+
+    // Step 3: Determine target .bib file
+    outputChannel.appendLine('Selecting .bib file...');
+    
+    // Project choice, declared \bibliography / \addbibresource, default, or prompt
+    const bibFileUri = await bibFileManager.selectBibFile(document);
+    
+    if (!bibFileUri) {
+        outputChannel.appendLine('User cancelled .bib file selection');
+        return 'noBibFile';
+    }
+    
+    // Update status bar with the file of this project
+    await statusBarManager.refresh();
+
+    outputChannel.appendLine(`Using .bib file: ${bibFileUri.fsPath}`);
+
+    // Step 4: Fetch entries using citation keys, in the target file's format
+    const format = await bibFileManager.getBibliographyFormat(bibFileUri, document);
+    const exportOptions = await exportOptionsResolver.resolve(document, bibFileUri, format);
+    outputChannel.appendLine(`Fetching BibTeX entries (${exportOptions.translator})...`);
+    const bibtex = await apiClient.exportBibTeX(citationKeys, exportOptions);
+
+    if (!bibtex) {
+        throw new Error('Failed to fetch BibTeX entries from Zotero');
+    }
+
+    outputChannel.appendLine(`Fetched BibTeX (${bibtex.length} characters)`);
+
+    // Clean BibTeX entries (remove annotation and other unwanted fields)
+    // Notebook cells use the settings of their notebook
+    const settingsScope = BibliographyResolver.getResourceUri(document);
+    const cleanedBibtex = cleanExport(bibtex, format, settingsScope);
+    outputChannel.appendLine(`Cleaned BibTeX (removed fields: ${BibTeXCleaner.getRemovedFields(settingsScope).join(', ')})`);
+    outputChannel.appendLine(`Cleaned BibTeX (${cleanedBibtex.length} characters)`);
+
+    // Step 5: Check for duplicates and append entries
+    // .bib changes are staged and applied together with the citation so they undo as one unit
+    const transaction = new EditTransaction();
+    const autoAppend = configManager.isAutoAppendEnabled(settingsScope);
+    // Without auto-append the file isn't touched, so there is nothing to ask Zotero about it
+    const autoExport = autoAppend ? await findAutoExport(bibFileUri) : undefined;
+    if (autoExport === null) {
+        return 'cancelled';
+    }
+
+    if (autoExport) {
+        // Better BibTeX would overwrite appended entries at its next export
+        outputChannel.appendLine(`${bibFileUri.fsPath} is a Better BibTeX auto-export, not appending`);
+        if (!(await addToAutoExport(bibFileUri, autoExport, citationKeys))) {
+            return 'cancelled';
+        }
+    } else if (autoAppend && format) {
+        if (!(await appendCSLItems(bibFileUri, format, cleanedBibtex, transaction))) {
+            return 'cancelled';
+        }
+        outputChannel.appendLine('CSL items staged');
+    } else if (autoAppend) {
+        outputChannel.appendLine('Parsing existing .bib file...');
+        const existingKeys = await bibFileManager.parseBibFile(bibFileUri);
+        outputChannel.appendLine(`Found ${existingKeys.size} existing entries`);
+
+        // Read existing BibTeX content for duplicate detection
+        let existingBibTeXString = '';
+        try {
+            existingBibTeXString = (await bibFileManager.readBibFile(bibFileUri)).text;
+        } catch (error) {
+            // File doesn't exist yet, nothing to compare against
+        }
+
+        // Detect potential duplicates
+        outputChannel.appendLine('Checking for potential duplicates...');
+        const duplicates = DuplicateDetector.detectDuplicates(cleanedBibtex, existingBibTeXString);
+        
+        if (duplicates.length > 0) {
+            outputChannel.appendLine(`Found ${duplicates.length} potential duplicate(s)`);
+            
+            // Show dialog to user
+            const action = await DuplicateDetector.showDuplicateDialog(duplicates);
+            
+            if (action === 'cancel') {
+                outputChannel.appendLine('User cancelled due to duplicates');
+                return 'cancelled';
+            }
+            
+            if (action === 'skip') {
+                // Filter out duplicates from new entries
+                const filteredBibtex = DuplicateDetector.filterDuplicates(cleanedBibtex, duplicates, 'skip');
+                
+                if (filteredBibtex.trim().length === 0) {
+                    vscode.window.showInformationMessage('All selected entries already exist in the .bib file');
+                    return 'cancelled';
+                }
+                
+                outputChannel.appendLine('Appending non-duplicate entries...');
+                await bibFileManager.appendEntries(bibFileUri, filteredBibtex, existingKeys, transaction);
+            } else if (action === 'replace') {
+                // Overwrite duplicates in place and append the remaining new entries
+                await bibFileManager.replaceDuplicates(bibFileUri, cleanedBibtex, duplicates, transaction);
+                
+                outputChannel.appendLine('Replaced duplicate entries with new versions');
+            } else {
+                // keep-both: append all entries
+                outputChannel.appendLine('Appending all entries (keeping duplicates)...');
+                await bibFileManager.appendEntries(bibFileUri, cleanedBibtex, new Set(), transaction);
+            }
+        } else {
+            outputChannel.appendLine('No duplicates found');
+            outputChannel.appendLine('Appending new entries...');
+            await bibFileManager.appendEntries(bibFileUri, cleanedBibtex, existingKeys, transaction);
+        }
+        
+        outputChannel.appendLine('BibTeX entries staged');
+    }
+
+    // Step 6: Replace the trigger (or selection) with \cite{keys}
+    outputChannel.appendLine('Inserting citation command...');
+    const success = await citationInserter.replaceTrigger(
+        document,
+        range,
+        citations,
+        citationCommand,
+        transaction
+    );
+
+    if (!success) {
+        throw new Error('Failed to insert citation command');
+    }
+
+    lastCitationTransaction = transaction;
+    outputChannel.appendLine('Citation inserted successfully');
+    vscode.window.showInformationMessage(
+        `Inserted ${citationKeys.length} citation(s) from Zotero`
+    );
+    return 'inserted';
+}
+
+/**
+ * Remove the configured fields from exported entries, BibTeX or CSL
+ * @param format Format of the target bibliography, null for .bib files
+ * @param scope Resource whose settings apply
+ */
+function cleanExport(exported: string, format: BibliographyFormat | null, scope: vscode.Uri): string {
+    return format
+        ? CSLBibliography.removeFields(exported, HayagrivaBibliography.getExportFormat(format), BibTeXCleaner.getRemovedFields(scope))
+        : BibTeXCleaner.cleanBibTeX(exported, scope);
+}
+
+/**
+ * Items of an export for a bibliography of `format`; Hayagriva entries are
+ * converted from the exported CSL-JSON
+ */
+function parseExport(exported: string, format: BibliographyFormat): CSLItem[] {
+    const items = CSLBibliography.parse(exported, HayagrivaBibliography.getExportFormat(format));
+    return format === 'hayagriva' ? HayagrivaBibliography.fromCSL(items) : items;
+}
+
+/**
+ * An item in the shape the duplicate detector compares
+ */
+function toDuplicateEntry(item: CSLItem, format: BibliographyFormat): BibTeXEntry {
+    return format === 'hayagriva' ? HayagrivaBibliography.toDuplicateEntry(item) : CSLBibliography.toDuplicateEntry(item);
+}
+
+/**
+ * Stage exported CSL items in a CSL-JSON, CSL-YAML or Hayagriva
+ * bibliography, asking about duplicates as for .bib files. Items are merged by id.
+ * @returns false if the user cancelled
+ */
+async function appendCSLItems(
+    bibFileUri: vscode.Uri,
+    format: BibliographyFormat,
+    exported: string,
+    transaction: EditTransaction
+): Promise<boolean> {
+    const newItems = parseExport(exported, format);
+    const existingItems = await bibFileManager.parseCSLItems(bibFileUri);
+    const existingIds = new Set(existingItems.map(item => item.id));
+    outputChannel.appendLine(`Found ${existingItems.length} existing items`);
+
+    outputChannel.appendLine('Checking for potential duplicates...');
+    const duplicates = DuplicateDetector.findDuplicates(
+        newItems.map(item => toDuplicateEntry(item, format)),
+        existingItems.map(item => toDuplicateEntry(item, format))
+    );
+
+    if (duplicates.length === 0) {
+        outputChannel.appendLine('No duplicates found');
+        await bibFileManager.mergeCSLItems(bibFileUri, format, newItems.filter(item => !existingIds.has(item.id)), new Map(), transaction);
+        return true;
+    }
+
+    outputChannel.appendLine(`Found ${duplicates.length} potential duplicate(s)`);
+    const action = await DuplicateDetector.showDuplicateDialog(duplicates);
+
+    if (action === 'cancel') {
+        outputChannel.appendLine('User cancelled due to duplicates');
+        return false;
+    }
+
+    if (action === 'skip') {
+        const duplicateIds = new Set(duplicates.map(d => d.newEntry.key));
+        const items = newItems.filter(item => !duplicateIds.has(item.id) && !existingIds.has(item.id));
+        if (items.length === 0) {
+            vscode.window.showInformationMessage('All selected entries already exist in the bibliography');
+            return false;
+        }
+        await bibFileManager.mergeCSLItems(bibFileUri, format, items, new Map(), transaction);
+    } else if (action === 'replace') {
+        // Each existing duplicate is replaced by its new version; the rest is appended
+        const byId = new Map(newItems.map(item => [item.id, item]));
+        const replacements = new Map<string, CSLItem>();
+        for (const duplicate of duplicates) {
+            const item = byId.get(duplicate.newEntry.key);
+            if (item && !replacements.has(duplicate.existingEntry.key)) {
+                replacements.set(duplicate.existingEntry.key, item);
+            }
+        }
+        await bibFileManager.mergeCSLItems(bibFileUri, format, newItems, replacements, transaction);
+        outputChannel.appendLine('Replaced duplicate items with new versions');
+    } else {
+        outputChannel.appendLine('Appending all items (keeping duplicates)...');
+        await bibFileManager.mergeCSLItems(bibFileUri, format, newItems, new Map(), transaction);
+    }
+    return true;
+}
@@ -0,0 +1,337 @@
+/**
+ * Hayagriva Bibliography - Typst's YAML bibliography format: convert CSL
+ * items to Hayagriva entries and merge them into a file by key
+ */
+
+import { CSLBibliography, CSLData, CSLFormat, CSLItem, CSLValue, isCSLData } from './cslBibliography';
+import { BibTeXEntry } from './duplicateDetector';
+
+/**
+ * Format of a bibliography other than BibTeX. Hayagriva files share the
+ * .yml extension with CSL-YAML.
+ */
+export type BibliographyFormat = CSLFormat | 'hayagriva';
+
+/**
+ * Hayagriva entry type and, for parts of a larger work, the parent's type
+ */
+const TYPES: { [cslType: string]: { type: string; parent?: string } } = {
+    'article-journal': { type: 'article', parent: 'periodical' },
+    'article-magazine': { type: 'article', parent: 'periodical' },
+    'article-newspaper': { type: 'article', parent: 'newspaper' },
+    'paper-conference': { type: 'article', parent: 'proceedings' },
+    'chapter': { type: 'chapter', parent: 'book' },
+    'entry-encyclopedia': { type: 'entry', parent: 'reference' },
+    'entry-dictionary': { type: 'entry', parent: 'reference' },
+    'post-weblog': { type: 'web', parent: 'blog' },
+    'webpage': { type: 'web' },
+    'book': { type: 'book' },
+    'report': { type: 'report' },
+    'thesis': { type: 'thesis' },
+    'manuscript': { type: 'manuscript' },
+    'patent': { type: 'patent' },
+    'dataset': { type: 'repository' },
+    'software': { type: 'repository' },
+    'motion_picture': { type: 'video' },
+    'song': { type: 'audio' },
+    'legislation': { type: 'legislation' },
+    'legal_case': { type: 'case' },
+    'graphic': { type: 'artwork' }
+};
+
+export class HayagrivaBibliography {
+    /**
+     * CSL format entries are exported in for a bibliography; Hayagriva
+     * entries are converted from CSL-JSON
+     */
+    static getExportFormat(format: BibliographyFormat): CSLFormat {
+        return format === 'hayagriva' ? 'json' : format;
+    }
+
+    /**
+     * Whether YAML text is a Hayagriva file: a map of keys to entries, not
+     * CSL-YAML's `references:` list
+     */
+    static isHayagriva(text: string): boolean {
+        const firstKey = text.split('\n').find(line => /^[^\s#-]/.test(line) && line.trim() !== '---');
+        return !!firstKey && !/^references:/.test(firstKey) && /:\s*$/.test(firstKey.replace(/\r$/, ''));
+    }
+
+    /**
+     * Entries with their text and offsets
+     */
+    static parse(text: string): CSLItem[] {
+        const lines = text.split('\n');
+        const items: CSLItem[] = [];
+        let offset = 0;
+        let current: { id: string; start: number; lines: string[]; end: number } | null = null;
+
+        const flush = () => {
+            if (current) {
+                const data = CSLBibliography.parseYAMLBlock(current.lines.slice(1));
+                items.push({
+                    id: current.id,
+                    data: isCSLData(data) ? data : {},
+                    raw: text.slice(current.start, current.end),
+                    start: current.start,
+                    end: current.end
+                });
+                current = null;
+            }
+        };
+
+        for (const rawLine of lines) {
+            const line = rawLine.replace(/\r$/, '');
+            const key = line.match(/^([^\s#-][^:]*|"[^"]*"|'[^']*'):\s*$/);
+
+            if (key) {
+                flush();
+                current = { id: key[1].replace(/^(["'])(.*)\1$/, '$2'), start: offset, lines: [line], end: offset + line.length };
+            } else if (current && (line.trim() === '' || /^\s/.test(line))) {
+                current.lines.push(line);
+                if (line.trim() !== '') {
+                    current.end = offset + line.length;
+                }
+            } else if (line.trim() !== '') {
+                flush();
+            }
+            offset += rawLine.length + 1;
+        }
+        flush();
+
+        return items;
+    }
+
+    /**
+     * Convert CSL items (as exported with Better CSL JSON) to Hayagriva entries
+     */
+    static fromCSL(items: CSLItem[]): CSLItem[] {
+        return items.map(item => {
+            const entry = this.convert(item.data);
+            const raw = `${this.formatKey(item.id)}:\n${this.toYAML(entry, 1)}`;
+            return { id: item.id, data: entry, raw, start: -1, end: -1 };
+        });
+    }
+
+    /**
+     * Append entries and replace existing ones by key (further entries with
+     * a key already replaced are removed), leaving the rest of the file as is
+     */
+    static merge(text: string, append: CSLItem[], replace: Map<string, CSLItem> = new Map()): string {
+        const eol = text.includes('\r\n') ? '\r\n' : '\n';
+        const placed = new Set<CSLItem>();
+        const edits: { start: number; end: number; newText: string }[] = [];
+
+        for (const existing of this.parse(text)) {
+            const replacement = replace.get(existing.id);
+            if (!replacement) {
+                continue;
+            }
+            if (!placed.has(replacement)) {
+                edits.push({ start: existing.start, end: existing.end, newText: replacement.raw.replace(/\n/g, eol) });
+                placed.add(replacement);
+            } else {
+                // Further matches of the same new item are dropped with their line break
+                const end = text.startsWith('\r\n', existing.end) ? existing.end + 2 : Math.min(text.length, existing.end + 1);
+                edits.push({ start: existing.start, end, newText: '' });
+            }
+        }
+
+        // Back to front so earlier offsets stay valid
+        let result = text;
+        for (const edit of edits.reverse()) {
+            result = result.slice(0, edit.start) + edit.newText + result.slice(edit.end);
+        }
+
+        const toAppend = append.filter(item => !placed.has(item));
+        if (toAppend.length === 0) {
+            return result;
+        }
+
+        const blocks = toAppend.map(item => item.raw.replace(/\n+$/, '').replace(/\n/g, eol)).join(eol + eol) + eol;
+        const trimmed = result.replace(/\s+$/, '');
+        return trimmed === '' ? blocks : `${trimmed}${eol}${eol}${blocks}`;
+    }
+
+    /**
+     * An entry in the shape the duplicate detector compares
+     */
+    static toDuplicateEntry(item: CSLItem): BibTeXEntry {
+        const fields = new Map<string, string>();
+        // Formattable strings can also be written as `{ value: ... }`
+        const value = (field: CSLValue | undefined): string | undefined => {
+            if (typeof field === 'string' || typeof field === 'number') {
+                return String(field);
+            }
+            return isCSLData(field) && typeof field.value === 'string' ? field.value : undefined;
+        };
+
+        const title = value(item.data.title);
+        if (title) {
+            fields.set('title', title);
+        }
+
+        const serial = item.data['serial-number'];
+        const doi = isCSLData(serial) ? value(serial.doi) : undefined;
+        if (doi) {
+            fields.set('doi', doi);
+        }
+
+        const authors = Array.isArray(item.data.author) ? item.data.author : item.data.author ? [item.data.author] : [];
+        const families = authors
+            .map(author => value(author)?.split(',')[0].trim())
+            .filter((name): name is string => !!name);
+        if (families.length > 0) {
+            fields.set('author', families.join(' and '));
+        }
+
+        const year = value(item.data.date)?.match(/\d{4}/)?.[0];
+        if (year) {
+            fields.set('year', year);
+        }
+
+        return {
+            key: item.id,
+            type: typeof item.data.type === 'string' ? item.data.type : 'misc',
+            fields,
+            rawText: item.raw,
+            start: item.start,
+            end: item.end
+        };
+    }
+
+    /**
+     * Hayagriva fields of a CSL item
+     */
+    private static convert(csl: CSLData): CSLData {
+        const mapping = (typeof csl.type === 'string' ? TYPES[csl.type] : undefined) ?? { type: 'misc' };
+        const entry: CSLData = { type: mapping.type };
+        const parent: CSLData | undefined = mapping.parent && csl['container-title']
+            ? { type: mapping.parent, title: csl['container-title'] }
+            : undefined;
+        // Details of the periodical or book go to the parent
+        const partOf = parent ?? entry;
+
+        if (csl.title) {
+            entry.title = csl.title;
+        }
+        const authors = this.names(csl.author);
+        if (authors) {
+            entry.author = authors;
+        }
+        const date = this.date(csl.issued);
+        if (date) {
+            entry.date = date;
+        }
+        const editors = this.names(csl.editor);
+        if (editors) {
+            partOf.editor = editors;
+        }
+        if (csl.publisher) {
+            partOf.publisher = csl['publisher-place']
+                ? { name: csl.publisher, location: csl['publisher-place'] }
+                : csl.publisher;
+        }
+        for (const [cslField, field] of [['volume', 'volume'], ['issue', 'issue'], ['edition', 'edition']]) {
+            if (csl[cslField] !== undefined) {
+                partOf[field] = csl[cslField];
+            }
+        }
+        if (csl.page) {
+            entry['page-range'] = csl.page;
+        }
+
+        const serial: CSLData = {};
+        if (csl.DOI) {
+            serial.doi = csl.DOI;
+        }
+        if (csl.ISBN) {
+            serial.isbn = csl.ISBN;
+        }
+        if (csl.ISSN && parent) {
+            parent['serial-number'] = { issn: csl.ISSN };
+        } else if (csl.ISSN) {
+            serial.issn = csl.ISSN;
+        }
+        if (Object.keys(serial).length > 0) {
+            entry['serial-number'] = serial;
+        }
+
+        for (const [cslField, field] of [['URL', 'url'], ['language', 'language'], ['genre', 'genre'], ['abstract', 'abstract'], ['note', 'note']]) {
+            if (csl[cslField]) {
+                entry[field] = csl[cslField];
+            }
+        }
+        if (parent) {
+            entry.parent = parent;
+        }
+
+        return entry;
+    }
+
+    /**
+     * "Family, Given" names; literal names as they are
+     */
+    private static names(names: CSLValue | undefined): string[] | undefined {
+        if (!Array.isArray(names) || names.length === 0) {
+            return undefined;
+        }
+        return names
+            .map(name => {
+                if (!isCSLData(name)) {
+                    return '';
+                }
+                return typeof name.literal === 'string'
+                    ? name.literal
+                    : [name.family, name.given].filter(part => typeof part === 'string' && part).join(', ');
+            })
+            .filter(name => name);
+    }
+
+    /**
+     * YYYY-MM-DD date, as precise as the CSL date
+     */
+    private static date(issued: CSLValue | undefined): string | undefined {
+        const dateParts = isCSLData(issued) ? issued['date-parts'] : undefined;
+        const parts = Array.isArray(dateParts) ? dateParts[0] : undefined;
+        if (Array.isArray(parts) && parts.length > 0) {
+            return parts.map((part, i) => String(part).padStart(i === 0 ? 4 : 2, '0')).join('-');
+        }
+        return CSLBibliography.getYear(issued);
+    }
+
+    private static toYAML(value: CSLData, depth: number): string {
+        const indent = '  '.repeat(depth);
+        return Object.entries(value)
+            .filter(([, field]) => field !== undefined)
+            .map(([name, field]) => {
+                if (Array.isArray(field)) {
+                    return `${indent}${name}:\n${field.map(item => `${indent}  - ${this.formatScalar(item)}`).join('\n')}`;
+                }
+                if (isCSLData(field)) {
+                    return `${indent}${name}:\n${this.toYAML(field, depth + 1)}`;
+                }
+                return `${indent}${name}: ${this.formatScalar(field)}`;
+            })
+            .join('\n');
+    }
+
+    /**
+     * Plain scalars where YAML reads them back unchanged, quoted otherwise;
+     * lists and objects in a list are written in flow style
+     */
+    private static formatScalar(value: CSLValue): string {
+        if (typeof value === 'object' && value !== null) {
+            return JSON.stringify(value);
+        }
+        const text = String(value);
+        if (typeof value !== 'string' || /^[A-Za-z0-9][\w .\-/]*$/.test(text) && !/^(true|false|null|yes|no|on|off|~)$/i.test(text) && !/\s$/.test(text)) {
+            return text;
+        }
+        return JSON.stringify(text);
+    }
+
+    private static formatKey(key: string): string {
+        return /^[\w][\w.\-]*$/.test(key) ? key : JSON.stringify(key);
+    }
+}
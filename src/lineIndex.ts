@@ -0,0 +1,37 @@
+/**
+ * Line Index - Convert offsets to positions in text that isn't open as a document
+ */
+
+import * as vscode from 'vscode';
+
+export class LineIndex {
+    /** Offsets at which each line starts */
+    private lineStarts: number[] = [0];
+
+    constructor(text: string) {
+        for (let i = 0; i < text.length; i++) {
+            if (text[i] === '\n') {
+                this.lineStarts.push(i + 1);
+            }
+        }
+    }
+
+    positionAt(offset: number): vscode.Position {
+        // Binary search for the last line starting at or before the offset
+        let low = 0;
+        let high = this.lineStarts.length - 1;
+        while (low < high) {
+            const mid = (low + high + 1) >> 1;
+            if (this.lineStarts[mid] <= offset) {
+                low = mid;
+            } else {
+                high = mid - 1;
+            }
+        }
+        return new vscode.Position(low, offset - this.lineStarts[low]);
+    }
+
+    rangeAt(start: number, end: number): vscode.Range {
+        return new vscode.Range(this.positionAt(start), this.positionAt(end));
+    }
+}
@@ -0,0 +1,136 @@
+/**
+ * Org Citation Formatter - org-cite `[cite:@key1;@key2]` citations in Org
+ * documents
+ */
+
+import { CitationEdit, CitationFormatter, CitationFormOption, formatPostnote } from './citationFormatter';
+import { CitationForm, PickedCitation } from './types';
+
+/**
+ * A citation key as org-cite reads it
+ */
+const CITATION_PATTERN = /@([-.:?!`'/*@+|(){}<>&_^$#%~\w]+)/g;
+
+/**
+ * Citation styles of each form; `[cite:...]` uses the default style
+ */
+const STYLES: { [form in CitationForm]: string } = {
+    'parenthetical': '',
+    'in-text': '/t',
+    'suppress-author': '/na'
+};
+
+export class OrgCitationFormatter implements CitationFormatter {
+    readonly languageIds = ['org'];
+    readonly extensions = ['.org'];
+    readonly trigger = '@zoteroCite';
+    readonly triggerPattern = /(?<![\w@])@zoteroCite\b(\*)?/;
+    readonly forms: ReadonlyArray<CitationFormOption> = [
+        { form: 'parenthetical', label: '[cite:@key]', description: 'Default style' },
+        { form: 'in-text', label: '[cite/t:@key]', description: 'In the running text' },
+        { form: 'suppress-author', label: '[cite/na:@key]', description: 'Without the author' }
+    ];
+
+    /**
+     * Inside a citation (`[cite:see @a;@zoteroCite]`) the new references
+     * are merged into it, otherwise a new citation replaces the trigger
+     */
+    cite(text: string, start: number, end: number, citations: PickedCitation[], form: CitationForm): CitationEdit {
+        const group = OrgCitationFormatter.findGroup(text, start, end);
+        if (!group) {
+            const newText = `[cite${STYLES[form]}:${citations.map(citation => this.formatReference(citation)).join(';')}]`;
+            return { start, end, newText, cursor: start + newText.length };
+        }
+
+        const content = text.slice(group.contentStart, group.close);
+        const triggerStart = start - group.contentStart;
+        const triggerEnd = end - group.contentStart;
+        const existingKeys = new Set(OrgCitationFormatter.findKeys(content.slice(0, triggerStart) + content.slice(triggerEnd)));
+        const newReferences = citations
+            .filter((citation, i) => !existingKeys.has(citation.key) && citations.findIndex(c => c.key === citation.key) === i)
+            .map(citation => this.formatReference(citation));
+
+        // References, and the global prefix and suffix, are separated by semicolons
+        const references: string[] = [];
+        let offset = 0;
+        for (const reference of content.split(';')) {
+            const referenceStart = offset;
+            const referenceEnd = offset + reference.length;
+            offset = referenceEnd + 1;
+
+            if (triggerStart < referenceStart || triggerStart > referenceEnd) {
+                if (reference.trim()) {
+                    references.push(reference.trim());
+                }
+                continue;
+            }
+
+            // The reference holding the trigger: a prefix such as "see" stays with the first new reference
+            const before = content.slice(referenceStart, triggerStart);
+            const after = content.slice(Math.min(triggerEnd, referenceEnd), referenceEnd);
+            const rest = `${before}${after}`.trim();
+            if (OrgCitationFormatter.findKeys(rest).length > 0 || newReferences.length === 0) {
+                if (rest) {
+                    references.push(rest);
+                }
+                references.push(...newReferences);
+            } else {
+                references.push(`${before}${newReferences[0]}${after}`.trim(), ...newReferences.slice(1));
+            }
+        }
+
+        const newText = `${text.slice(group.open, group.contentStart)}${references.join(';')}]`;
+        return {
+            start: group.open,
+            end: group.closed ? group.close + 1 : group.close,
+            newText,
+            cursor: group.open + newText.length
+        };
+    }
+
+    /**
+     * Files of `#+bibliography:` keywords, one per keyword line
+     */
+    findBibliographies(text: string): string[] {
+        const files: string[] = [];
+        for (const match of text.matchAll(/^[ \t]*#\+bibliography:[ \t]*(.+?)[ \t]*$/gim)) {
+            const file = match[1].replace(/^"(.*)"$/, '$1');
+            if (!files.includes(file)) {
+                files.push(file);
+            }
+        }
+        return files;
+    }
+
+    /**
+     * One reference: `see @key p. 4`
+     */
+    private formatReference(citation: PickedCitation): string {
+        const prefix = (citation.prefix || '').trim();
+        const suffix = formatPostnote(citation);
+        return `${prefix ? `${prefix} ` : ''}@${citation.key}${suffix ? ` ${suffix}` : ''}`;
+    }
+
+    private static findKeys(text: string): string[] {
+        return [...text.matchAll(CITATION_PATTERN)].map(match => match[1]);
+    }
+
+    /**
+     * The `[cite/style:` ... `]` around `start`–`end` on the same line; one
+     * without a closing bracket yet (`[cite:@zoteroCite`) still counts
+     */
+    private static findGroup(text: string, start: number, end: number): { open: number; contentStart: number; close: number; closed: boolean } | null {
+        const lineStart = text.lastIndexOf('\n', start - 1) + 1;
+        const open = text.slice(lineStart, start).match(/\[cite(?:\/[\w\-/]+)?:[^\[\]\n]*$/);
+        if (!open || open.index === undefined) {
+            return null;
+        }
+
+        const openOffset = lineStart + open.index;
+        const contentStart = text.indexOf(':', openOffset) + 1;
+        const rest = text.slice(end).match(/^[^\[\]\n]*\]/);
+        return rest
+            ? { open: openOffset, contentStart, close: end + rest[0].length - 1, closed: true }
+            : { open: openOffset, contentStart, close: end, closed: false };
+    }
+}
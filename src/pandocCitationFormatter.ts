@@ -0,0 +1,205 @@
+/**
+ * Pandoc Citation Formatter - `[@key1; @key2]` and `@key` citations in
+ * Markdown, Quarto and R Markdown documents
+ */
+
+import { CitationEdit, CitationFormatter, CitationFormOption, formatPostnote } from './citationFormatter';
+import { CitationForm, PickedCitation } from './types';
+
+/**
+ * A citation key in Pandoc syntax: `@key`, `-@key` or `@{key}`. Keys may
+ * contain internal punctuation but don't end with it.
+ */
+const CITATION_PATTERN = /(?<![\w@])-?@(?:\{([^}]+)\}|(\w(?:[\w:.#$%&\-+?<>~/]*\w)?))/g;
+
+/**
+ * Keys that can be written without braces
+ */
+const PLAIN_KEY = /^\w(?:[\w:.#$%&\-+?<>~/]*\w)?$/;
+
+export class PandocCitationFormatter implements CitationFormatter {
+    readonly languageIds = ['markdown', 'quarto', 'rmd', 'rmarkdown'];
+    readonly extensions = ['.md', '.markdown', '.qmd', '.rmd'];
+    readonly trigger = '@zoteroCite';
+    readonly triggerPattern = /(?<![\w@])@zoteroCite\b(\*)?/;
+    readonly forms: ReadonlyArray<CitationFormOption> = [
+        { form: 'parenthetical', label: '[@key]', description: 'In brackets' },
+        { form: 'in-text', label: '@key', description: 'In the running text' },
+        { form: 'suppress-author', label: '[-@key]', description: 'Without the author' }
+    ];
+
+    /**
+     * Inside a bracketed citation (`[see @a; @zoteroCite]`) the new items
+     * are merged into it, otherwise a new citation replaces the trigger
+     */
+    cite(text: string, start: number, end: number, citations: PickedCitation[], form: CitationForm): CitationEdit {
+        const group = PandocCitationFormatter.findGroup(text, start, end);
+        if (!group) {
+            const newText = this.format(citations, form);
+            return { start, end, newText, cursor: start + newText.length };
+        }
+
+        // Items of the group, split where Pandoc splits them
+        const content = text.slice(group.open + 1, group.close);
+        const triggerStart = start - group.open - 1;
+        const triggerEnd = end - group.open - 1;
+        const existingKeys = new Set(PandocCitationFormatter.findKeys(content.slice(0, triggerStart) + content.slice(triggerEnd)));
+        const newItems = citations
+            .filter((citation, i) => !existingKeys.has(citation.key) && citations.findIndex(c => c.key === citation.key) === i)
+            .map(citation => this.formatItem(citation, form === 'suppress-author' || !!citation.suppressAuthor));
+
+        const items: string[] = [];
+        let offset = 0;
+        for (const item of content.split(';')) {
+            const itemStart = offset;
+            const itemEnd = offset + item.length;
+            offset = itemEnd + 1;
+
+            if (triggerStart < itemStart || triggerStart > itemEnd) {
+                if (item.trim()) {
+                    items.push(item.trim());
+                }
+                continue;
+            }
+
+            // The item holding the trigger: a prefix such as "see" stays with the first new item
+            const before = content.slice(itemStart, triggerStart);
+            const after = content.slice(Math.min(triggerEnd, itemEnd), itemEnd);
+            const rest = `${before}${after}`.trim();
+            if (PandocCitationFormatter.findKeys(rest).length > 0 || newItems.length === 0) {
+                if (rest) {
+                    items.push(rest);
+                }
+                items.push(...newItems);
+            } else {
+                items.push(`${before}${newItems[0]}${after}`.trim(), ...newItems.slice(1));
+            }
+        }
+
+        const newText = `[${items.join('; ')}]`;
+        return {
+            start: group.open,
+            end: group.closed ? group.close + 1 : group.close,
+            newText,
+            cursor: group.open + newText.length
+        };
+    }
+
+    /**
+     * Bibliographies of the YAML front matter: `bibliography: refs.bib`,
+     * `bibliography: [a.bib, b.json]` or a block list
+     */
+    findBibliographies(text: string): string[] {
+        const frontMatter = text.replace(/^﻿/, '').match(/^---[ \t]*\r?\n([\s\S]*?)\r?\n(?:---|\.\.\.)[ \t]*(?:\r?\n|$)/);
+        if (!frontMatter) {
+            return [];
+        }
+
+        const lines = frontMatter[1].split(/\r?\n/);
+        const index = lines.findIndex(line => /^bibliography:/.test(line));
+        if (index === -1) {
+            return [];
+        }
+
+        const unquote = (value: string) => value.trim().replace(/^(["'])(.*)\1$/, '$2').trim();
+        const value = lines[index].slice('bibliography:'.length).replace(/\s+#.*$/, '').trim();
+
+        if (value.startsWith('[')) {
+            return value.replace(/^\[|\]$/g, '').split(',').map(unquote).filter(file => file);
+        }
+        if (value) {
+            return [unquote(value)];
+        }
+
+        const files: string[] = [];
+        for (const line of lines.slice(index + 1)) {
+            const item = line.match(/^\s*-\s+(.+?)\s*$/);
+            if (!item) {
+                break;
+            }
+            files.push(unquote(item[1]));
+        }
+        return files.filter(file => file);
+    }
+
+    /**
+     * A new citation in the chosen form
+     */
+    private format(citations: PickedCitation[], form: CitationForm): string {
+        if (form === 'in-text') {
+            return citations
+                .map(citation => {
+                    const prefix = (citation.prefix || '').trim();
+                    const postnote = formatPostnote(citation);
+                    return `${prefix ? `${prefix} ` : ''}@${this.formatKey(citation.key)}${postnote ? ` [${postnote}]` : ''}`;
+                })
+                .join(', ');
+        }
+
+        const items = citations.map(citation => this.formatItem(citation, form === 'suppress-author' || !!citation.suppressAuthor));
+        return `[${items.join('; ')}]`;
+    }
+
+    /**
+     * One item of a bracketed citation: `see -@key, p. 4 and passim`
+     */
+    private formatItem(citation: PickedCitation, suppressAuthor: boolean): string {
+        const prefix = (citation.prefix || '').trim();
+        const postnote = formatPostnote(citation);
+        return `${prefix ? `${prefix} ` : ''}${suppressAuthor ? '-' : ''}@${this.formatKey(citation.key)}${postnote ? `, ${postnote}` : ''}`;
+    }
+
+    private formatKey(key: string): string {
+        return PLAIN_KEY.test(key) ? key : `{${key}}`;
+    }
+
+    /**
+     * Keys cited in a piece of text
+     */
+    private static findKeys(text: string): string[] {
+        return [...text.matchAll(CITATION_PATTERN)].map(match => match[1] ?? match[2]);
+    }
+
+    /**
+     * The brackets around `start`–`end` within the paragraph. An opening
+     * bracket without a closing one yet (`[@zoteroCite`) still counts; links,
+     * images and inline notes don't.
+     */
+    private static findGroup(text: string, start: number, end: number): { open: number; close: number; closed: boolean } | null {
+        // A line break after a blank line
+        const isParagraphEnd = (i: number) => {
+            if (text[i] !== '\n') {
+                return false;
+            }
+            let j = i - 1;
+            while (j >= 0 && /[ \t\r]/.test(text[j])) {
+                j--;
+            }
+            return j < 0 || text[j] === '\n';
+        };
+
+        let open = -1;
+        for (let i = start - 1; i >= 0; i--) {
+            if (text[i] === '[') {
+                open = i;
+                break;
+            }
+            if (text[i] === ']' || isParagraphEnd(i)) {
+                return null;
+            }
+        }
+        if (open === -1 || text[open - 1] === '!' || text[open - 1] === '^' || text[open + 1] === '^') {
+            return null;
+        }
+
+        for (let i = end; i < text.length; i++) {
+            if (text[i] === ']') {
+                return text[i + 1] === '(' ? null : { open, close: i, closed: true };
+            }
+            if (text[i] === '[' || isParagraphEnd(i)) {
+                break;
+            }
+        }
+        return { open, close: end, closed: false };
+    }
+}
@@ -5,11 +5,20 @@
 import * as vscode from 'vscode';
 import { ConfigurationManager } from './configurationManager';
 import { ZoteroAPIClient } from './zoteroApiClient';
+import { BibFileSource, BibTeXFileManager } from './bibtexFileManager';
+import { AutoExportRegistry } from './autoExportRegistry';
+import { BibliographyResolver } from './bibliographyResolver';
+import { AutoExport } from './types';
 
 export class StatusBarManager {
     private bibFileStatusBarItem: vscode.StatusBarItem;
     private zoteroStatusBarItem: vscode.StatusBarItem;
     private currentBibFile: vscode.Uri | null = null;
+    private currentBibFileSource: BibFileSource | null = null;
+    private currentAutoExport: AutoExport | undefined;
+    private currentFolder: string | undefined;
+    private refreshCounter = 0;
+    private listeners: vscode.Disposable;
     private zoteroConnected: boolean = false;
     private checkInterval: NodeJS.Timeout | null = null;
     private isCheckingConnection: boolean = false;
@@ -17,7 +26,9 @@ export class StatusBarManager {
 
     constructor(
         private configManager: ConfigurationManager,
-        private apiClient: ZoteroAPIClient
+        private apiClient: ZoteroAPIClient,
+        private bibFileManager: BibTeXFileManager,
+        private autoExportRegistry: AutoExportRegistry
     ) {
         // Create .bib file status bar item (aligned to right, priority 100)
         this.bibFileStatusBarItem = vscode.window.createStatusBarItem(
@@ -36,8 +47,18 @@ export class StatusBarManager {
         
         this.zoteroStatusBarItem.command = 'zotero-cite.checkConnection';
         
-        // Initialize with configured file if available
-        this.updateFromConfig();
+        // Initialize with the active document's .bib file, or the configured one
+        this.refresh();
+
+        // Follow the project of the active editor and changes of the default
+        this.listeners = vscode.Disposable.from(
+            vscode.window.onDidChangeActiveTextEditor(() => this.refresh()),
+            vscode.workspace.onDidChangeConfiguration(event => {
+                if (event.affectsConfiguration('zotero-cite.defaultBibFile')) {
+                    this.refresh(true);
+                }
+            })
+        );
         
         // Start checking Zotero connection
         this.startConnectionCheck();
@@ -90,27 +111,39 @@ export class StatusBarManager {
     private updateZoteroDisplay(): void {
         if (this.zoteroConnected) {
             this.zoteroStatusBarItem.text = '$(check) Zotero';
-            this.zoteroStatusBarItem.tooltip = 'Zotero is connected and ready\n\nClick to refresh connection';
+            this.zoteroStatusBarItem.tooltip = `Zotero is connected and ready (${this.apiClient.getBaseUrl()})\n\nClick to refresh connection`;
             this.zoteroStatusBarItem.backgroundColor = undefined;
         } else {
             this.zoteroStatusBarItem.text = '$(x) Zotero';
-            this.zoteroStatusBarItem.tooltip = 'Zotero is not connected\n\nPlease start Zotero and ensure Better BibTeX is installed\n\nClick to retry connection';
+            this.zoteroStatusBarItem.tooltip = `Zotero is not connected (${this.apiClient.getBaseUrl()})\n\nPlease start Zotero and ensure Better BibTeX is installed\n\nClick to retry connection`;
             this.zoteroStatusBarItem.backgroundColor = new vscode.ThemeColor('statusBarItem.errorBackground');
         }
     }
 
     /**
-     * Update status bar from configuration
+     * Show the .bib file of the active document's project or workspace folder.
+     * Other editors in the same folder (e.g. the .bib file itself) keep the
+     * previous project's file.
      */
-    private updateFromConfig(): void {
-        const defaultBibFile = this.configManager.getDefaultBibFile();
-        if (defaultBibFile) {
-            const bibFileUri = this.configManager.resolveBibFilePath(defaultBibFile);
-            if (bibFileUri) {
-                this.currentBibFile = bibFileUri;
+    async refresh(force: boolean = false): Promise<void> {
+        const document = vscode.window.activeTextEditor?.document;
+        const folder = document ? vscode.workspace.getWorkspaceFolder(BibliographyResolver.getResourceUri(document)) : undefined;
+
+        if (!force && this.currentBibFile && (!document || !this.bibFileManager.declaresBibliographies(document))) {
+            if (!folder || folder.uri.toString() === this.currentFolder) {
+                return;
             }
         }
-        this.updateBibFileDisplay();
+
+        // Drop results of refreshes overtaken by a newer one
+        const refreshId = ++this.refreshCounter;
+        const target = await this.bibFileManager.getTargetBibFile(document);
+        if (refreshId !== this.refreshCounter) {
+            return;
+        }
+
+        this.currentFolder = folder?.uri.toString();
+        this.setCurrentBibFile(target?.uri ?? null, target?.source);
     }
 
     /**
@@ -119,14 +152,55 @@ export class StatusBarManager {
     private updateBibFileDisplay(): void {
         if (this.currentBibFile) {
             const fileName = this.currentBibFile.fsPath.split(/[/\\]/).pop() || 'unknown';
-            this.bibFileStatusBarItem.text = `$(book) ${fileName}`;
-            this.bibFileStatusBarItem.tooltip = `Current .bib file: ${this.currentBibFile.fsPath}\n\nClick to change`;
+            this.bibFileStatusBarItem.text = `${this.currentAutoExport ? '$(sync)' : '$(book)'} ${fileName}`;
+            this.bibFileStatusBarItem.tooltip = `Current .bib file: ${this.currentBibFile.fsPath}${this.describeSource()}${this.describeAutoExport()}\n\nClick to change`;
         } else {
             this.bibFileStatusBarItem.text = '$(book) No .bib file';
             this.bibFileStatusBarItem.tooltip = 'Click to select .bib file for Zotero citations';
         }
     }
 
+    private describeSource(): string {
+        switch (this.currentBibFileSource) {
+            case 'declared':
+                return '\n(declared in the document)';
+            case 'default':
+                return '\n(default from settings of this folder)';
+            case 'selected':
+                return '\n(selected for this project)';
+            default:
+                return '';
+        }
+    }
+
+    private describeAutoExport(): string {
+        if (!this.currentAutoExport) {
+            return '';
+        }
+        const what = this.currentAutoExport.type === 'collection'
+            ? `collection ${this.currentAutoExport.collection ?? ''}`.trimEnd()
+            : 'library';
+        return `\nManaged by Zotero: Better BibTeX auto-exports the ${what} to this file`;
+    }
+
+    /**
+     * Look up whether the current file is a Better BibTeX auto-export
+     */
+    private async updateAutoExport(): Promise<void> {
+        const bibFileUri = this.currentBibFile;
+        // Without Zotero the file is shown as a plain .bib file
+        const autoExport = bibFileUri
+            ? await this.autoExportRegistry.find(bibFileUri).catch(error => {
+                console.log(`${error instanceof Error ? error.message : error}`);
+                return undefined;
+            })
+            : undefined;
+        if (bibFileUri === this.currentBibFile) {
+            this.currentAutoExport = autoExport;
+            this.updateBibFileDisplay();
+        }
+    }
+
     /**
      * Show status bar items
      */
@@ -153,9 +227,12 @@ export class StatusBarManager {
     /**
      * Set current .bib file
      */
-    setCurrentBibFile(bibFileUri: vscode.Uri | null): void {
+    setCurrentBibFile(bibFileUri: vscode.Uri | null, source: BibFileSource | null = 'selected'): void {
         this.currentBibFile = bibFileUri;
+        this.currentBibFileSource = bibFileUri ? source : null;
+        this.currentAutoExport = undefined;
         this.updateBibFileDisplay();
+        this.updateAutoExport();
     }
 
     /**
@@ -172,6 +249,13 @@ export class StatusBarManager {
         this.pickerInUse = inUse;
     }
 
+    /**
+     * Check the connection again, e.g. after the Zotero URL changed
+     */
+    async recheckConnection(): Promise<void> {
+        await this.checkZoteroConnection();
+    }
+
     /**
      * Manually check connection (called by command)
      */
@@ -188,68 +272,75 @@ export class StatusBarManager {
     }
 
     /**
-     * Prompt user to select .bib file
+     * Prompt user to select .bib file, offering the bibliographies declared
+     * by the active document first
      */
     async selectBibFile(): Promise<vscode.Uri | null> {
-        const selected = await vscode.window.showOpenDialog({
-            canSelectFiles: true,
-            canSelectFolders: false,
-            canSelectMany: false,
-            filters: {
-                'BibTeX Files': ['bib']
-            },
-            title: 'Select .bib file for Zotero citations'
-        });
-
-        if (selected && selected.length > 0) {
-            this.setCurrentBibFile(selected[0]);
-            
+        const editor = vscode.window.activeTextEditor;
+        const document = editor && this.bibFileManager.declaresBibliographies(editor.document) ? editor.document : undefined;
+        const declared = document ? await this.bibFileManager.getDeclaredBibFiles(document) : [];
+
+        let selectedUri: vscode.Uri | undefined;
+        if (declared.length > 0) {
+            const items: Array<vscode.QuickPickItem & { uri?: vscode.Uri }> = declared.map(uri => ({
+                label: `$(book) ${uri.fsPath.split(/[/\\]/).pop()}`,
+                description: uri.fsPath,
+                uri
+            }));
+            items.push({ label: '$(folder-opened) Browse...' });
+
+            const picked = await vscode.window.showQuickPick(items, {
+                placeHolder: 'Select .bib file for Zotero citations'
+            });
+            if (!picked) {
+                return null;
+            }
+            selectedUri = picked.uri;
+        }
+
+        if (!selectedUri) {
+            const selected = await vscode.window.showOpenDialog({
+                canSelectFiles: true,
+                canSelectFolders: false,
+                canSelectMany: false,
+                filters: {
+                    'BibTeX Files': ['bib'],
+                    'CSL-JSON / YAML Files (CSL or Hayagriva)': ['json', 'yaml', 'yml']
+                },
+                title: 'Select .bib file for Zotero citations'
+            });
+
+            if (!selected || selected.length === 0) {
+                return null;
+            }
+            selectedUri = selected[0];
+
             // Ask if user wants to save as default
             const saveAsDefault = await vscode.window.showInformationMessage(
-                `Set ${selected[0].fsPath} as default .bib file?`,
+                `Set ${selectedUri.fsPath} as default .bib file?`,
                 'Yes',
                 'No'
             );
 
             if (saveAsDefault === 'Yes') {
-                await this.saveAsDefault(selected[0]);
+                await this.saveAsDefault(selectedUri);
             }
+        }
 
-            return selected[0];
+        if (document) {
+            await this.bibFileManager.setProjectBibFile(document, selectedUri);
         }
+        this.setCurrentBibFile(selectedUri);
 
-        return null;
+        return selectedUri;
     }
 
     /**
-     * Save .bib file as default in workspace settings
+     * Save .bib file as default in the settings of the active document's folder
      */
     private async saveAsDefault(bibFileUri: vscode.Uri): Promise<void> {
-        const workspaceFolders = vscode.workspace.workspaceFolders;
-        if (!workspaceFolders || workspaceFolders.length === 0) {
-            // Save as absolute path if no workspace
-            await vscode.workspace.getConfiguration('zotero-cite').update(
-                'defaultBibFile',
-                bibFileUri.fsPath,
-                vscode.ConfigurationTarget.Global
-            );
-        } else {
-            // Try to save as workspace-relative path
-            const workspaceRoot = workspaceFolders[0].uri.fsPath;
-            const bibPath = bibFileUri.fsPath;
-            
-            let relativePath = bibPath;
-            if (bibPath.startsWith(workspaceRoot)) {
-                relativePath = bibPath.substring(workspaceRoot.length + 1).replace(/\\/g, '/');
-            }
-
-            await vscode.workspace.getConfiguration('zotero-cite').update(
-                'defaultBibFile',
-                relativePath,
-                vscode.ConfigurationTarget.Workspace
-            );
-        }
-
+        const document = vscode.window.activeTextEditor?.document;
+        await this.configManager.saveDefaultBibFile(bibFileUri, document && BibliographyResolver.getResourceUri(document));
         vscode.window.showInformationMessage('Default .bib file saved to settings');
     }
 
@@ -261,6 +352,7 @@ export class StatusBarManager {
             clearInterval(this.checkInterval);
             this.checkInterval = null;
         }
+        this.listeners.dispose();
         this.bibFileStatusBarItem.dispose();
         this.zoteroStatusBarItem.dispose();
     }
@@ -0,0 +1,33 @@
+import * as assert from 'assert';
+import { AsciidocCitationFormatter } from '../../asciidocCitationFormatter';
+import { getCitationFormatter } from '../../citationFormatter';
+import { cite } from './citationFormatterHelper';
+
+suite('AsciiDoc Citation Formatter Test Suite', () => {
+    const formatter = new AsciidocCitationFormatter();
+
+    test('New citations as cite or citenp macros', () => {
+        assert.strictEqual(cite(formatter, 'As shown @zoteroCite.', [{ key: 'a' }, { key: 'b', locator: '42' }]), 'As shown cite:[a, b(42)].');
+        assert.strictEqual(cite(formatter, '@zoteroCite shows', [{ key: 'doe2020' }], 'in-text'), 'citenp:[doe2020] shows');
+        assert.strictEqual(cite(formatter, 'x @zoteroCite', [{ key: 'a', locator: '3', label: 'chapter' }]), 'x cite:[a(chap. 3)]');
+    });
+
+    test('Picked keys are merged into the macro around the trigger', () => {
+        assert.strictEqual(cite(formatter, 'Text cite:[a(4), @zoteroCite, c] more', [{ key: 'a' }, { key: 'b' }]), 'Text cite:[a(4), b, c] more');
+        assert.strictEqual(cite(formatter, 'Text citenp:[@zoteroCite', [{ key: 'b' }]), 'Text citenp:[b]');
+        assert.strictEqual(cite(formatter, 'cite:[a] then @zoteroCite', [{ key: 'a' }]), 'cite:[a] then cite:[a]');
+    });
+
+    test('Citations without the author fall back to cite macros', () => {
+        // asciidoctor-bibtex has no form without the author, so none is offered
+        assert.ok(!formatter.forms.some(option => option.form === 'suppress-author'));
+        assert.strictEqual(cite(formatter, 'x @zoteroCite* y', [{ key: 'a', locator: '4' }], 'suppress-author'), 'x cite:[a(4)] y');
+        assert.strictEqual(cite(formatter, 'Text citenp:[a, @zoteroCite*]', [{ key: 'b' }], 'suppress-author'), 'Text citenp:[a, b]');
+    });
+
+    test('Bibliography comes from the bibtex-file attribute', () => {
+        assert.deepStrictEqual(formatter.findBibliographies('= Title\n:bibtex-file: refs.bib\n\nText\n'), ['refs.bib']);
+        assert.deepStrictEqual(formatter.findBibliographies('= Title\n\nText\n'), []);
+        assert.ok(getCitationFormatter({ languageId: 'plaintext', fileName: '/doc/guide.adoc' }) instanceof AsciidocCitationFormatter);
+    });
+});
@@ -0,0 +1,40 @@
+import * as assert from 'assert';
+import * as vscode from 'vscode';
+import { AutoExportRegistry } from '../../autoExportRegistry';
+import { ZoteroAPIClient } from '../../zoteroApiClient';
+import { AutoExport } from '../../types';
+
+suite('Auto-Export Registry Test Suite', () => {
+    /**
+     * A client whose auto-export lookups give the listed results in turn
+     */
+    const clientReturning = (...results: Array<AutoExport[] | Error>) => {
+        const client = {
+            calls: 0,
+            async getAutoExports(): Promise<AutoExport[]> {
+                const result = results[Math.min(client.calls++, results.length - 1)];
+                if (result instanceof Error) {
+                    throw result;
+                }
+                return result;
+            }
+        };
+        return client;
+    };
+
+    test('A failed lookup is reported and not cached', async () => {
+        const file = vscode.Uri.file('/home/me/thesis/refs.bib');
+        const client = clientReturning(new Error('connect ECONNREFUSED'), [{ path: file.fsPath, type: 'library' }]);
+        const registry = new AutoExportRegistry(client as unknown as ZoteroAPIClient);
+
+        await assert.rejects(registry.find(file), /Could not list Better BibTeX auto-exports: connect ECONNREFUSED/);
+        assert.deepStrictEqual(await registry.find(file), { path: file.fsPath, type: 'library' });
+        assert.strictEqual(await registry.find(vscode.Uri.file('/home/me/other.bib')), undefined);
+        assert.strictEqual(client.calls, 2);
+    });
+
+    test('Paths are compared as the file system would', () => {
+        assert.ok(AutoExportRegistry.isSamePath('C:\\Thesis\\Refs.bib', 'c:/thesis/refs.bib', 'win32'));
+        assert.ok(!AutoExportRegistry.isSamePath('/home/me/Refs.bib', '/home/me/refs.bib', 'linux'));
+    });
+});
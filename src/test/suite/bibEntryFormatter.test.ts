@@ -0,0 +1,29 @@
+import * as assert from 'assert';
+import { BibTeXParser } from '../../bibtexParser';
+import { BibEntryFormatter } from '../../bibEntryFormatter';
+
+suite('BibTeX Entry Formatter Test Suite', () => {
+    const parseEntry = (source: string) => BibTeXParser.parse(source).entries[0];
+
+    test('Authors are shortened to family names', () => {
+        assert.strictEqual(
+            BibEntryFormatter.getAuthors(parseEntry('@article{a, author = {Smith, John and Jane Doe}}')),
+            'Smith and Doe'
+        );
+        assert.strictEqual(
+            BibEntryFormatter.getAuthors(parseEntry('@article{a, author = {A, B and C, D and E, F and G, H}}')),
+            'A et al.'
+        );
+        assert.strictEqual(
+            BibEntryFormatter.getAuthors(parseEntry('@report{a, author = {{World Health Organization} and others}}')),
+            'World Health Organization et al.'
+        );
+    });
+
+    test('Year, title and venue as plain text', () => {
+        const entry = parseEntry('@article{a, title = {The {DNA} of \\emph{Tests} -- Part~1}, journaltitle = {J. \\& Q.}, date = {2021-03-01}}');
+        assert.strictEqual(BibEntryFormatter.getTitle(entry), 'The DNA of Tests – Part 1');
+        assert.strictEqual(BibEntryFormatter.getVenue(entry), 'J. & Q.');
+        assert.strictEqual(BibEntryFormatter.getShortReference(entry), 'Unknown author (2021)');
+    });
+});
@@ -0,0 +1,49 @@
+import * as assert from 'assert';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import * as vscode from 'vscode';
+import { BibliographyResolver } from '../../bibliographyResolver';
+
+suite('Bibliography Resolver Test Suite', () => {
+    test('BibTeX declarations get a .bib extension', () => {
+        const text = '\\bibliographystyle{plain}\n\\bibliography{refs, extra.bib,../shared/more}';
+        assert.deepStrictEqual(
+            BibliographyResolver.findBibliographyDeclarations(text),
+            ['refs.bib', 'extra.bib', '../shared/more.bib']
+        );
+    });
+
+    test('biblatex resources and commented out declarations', () => {
+        const text = '\\addbibresource[datatype=bibtex]{main.bib}\n% \\addbibresource{old.bib}\n\\addbibresource{main.bib}';
+        assert.deepStrictEqual(BibliographyResolver.findBibliographyDeclarations(text), ['main.bib']);
+    });
+
+    test('Notebook bibliographies come from the ipynb metadata', () => {
+        assert.deepStrictEqual(BibliographyResolver.findNotebookBibliographies({ metadata: { bibliography: 'refs.bib' } }), ['refs.bib']);
+        assert.deepStrictEqual(
+            BibliographyResolver.findNotebookBibliographies({ custom: { metadata: { bibliography: ['a.bib', ' b.json', 3] } } }),
+            ['a.bib', 'b.json']
+        );
+        assert.deepStrictEqual(BibliographyResolver.findNotebookBibliographies({ metadata: { kernelspec: {} } }), []);
+    });
+
+    test('Project files are the root and what it includes', async () => {
+        const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'zotero-cite-'));
+        try {
+            fs.mkdirSync(path.join(dir, 'chapters'));
+            fs.writeFileSync(path.join(dir, 'chapters', 'intro.tex'), '\\input{chapters/method}\n% \\input{draft}\n');
+            fs.writeFileSync(path.join(dir, 'chapters', 'method.tex'), '\\cite{b}\n');
+            fs.writeFileSync(path.join(dir, 'draft.tex'), '\\cite{c}\n');
+            const root = { uri: vscode.Uri.file(path.join(dir, 'main.tex')), text: '\\include{chapters/intro.tex}\n\\input{missing}\n' };
+
+            const files = await new BibliographyResolver().getProjectFiles(root);
+            assert.deepStrictEqual(
+                files.map(file => path.relative(dir, file.uri.fsPath)),
+                ['main.tex', path.join('chapters', 'intro.tex'), path.join('chapters', 'method.tex')]
+            );
+        } finally {
+            fs.rmSync(dir, { recursive: true, force: true });
+        }
+    });
+});
@@ -0,0 +1,29 @@
+import * as assert from 'assert';
+import { BibliographySync } from '../../bibliographySync';
+import { BibTeXParser } from '../../bibtexParser';
+
+suite('Bibliography Sync Test Suite', () => {
+    const parseEntry = (source: string) => BibTeXParser.parse(source).entries[0];
+
+    test('Changed, added and removed fields are reported', () => {
+        const current = parseEntry('@article{smith2020,\n  title = {A  Title},\n  note = {Hand-written},\n  year = {2020}\n}');
+        const updated = parseEntry('@article{smith2020,\n  title = {A Title},\n  year = {2021},\n  doi = {10.1000/1}\n}');
+
+        assert.deepStrictEqual(BibliographySync.compareEntries(current, updated), [
+            { name: 'note', before: 'Hand-written', after: undefined },
+            { name: 'year', before: '2020', after: '2021' },
+            { name: 'doi', before: undefined, after: '10.1000/1' }
+        ]);
+    });
+
+    test('Cleaned fields and identical entries give no changes', () => {
+        const current = parseEntry('@book{doe2019, title = {Book}, file = {a.pdf}}');
+        const updated = parseEntry('@book{doe2019,\n  title = {Book}\n}');
+
+        assert.deepStrictEqual(BibliographySync.compareEntries(current, updated, ['file']), []);
+        assert.strictEqual(
+            BibliographySync.describeChanges([{ name: 'doi', after: '10.1000/1' }, { name: '@type', before: 'misc', after: 'article' }]),
+            'doi added · @type changed'
+        );
+    });
+});
@@ -0,0 +1,71 @@
+import * as assert from 'assert';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import * as vscode from 'vscode';
+import { BibTeXFileManager } from '../../bibtexFileManager';
+import { BibliographyResolver } from '../../bibliographyResolver';
+import { ConfigurationManager } from '../../configurationManager';
+import { DuplicateDetector } from '../../duplicateDetector';
+import { EditTransaction } from '../../editTransaction';
+
+suite('BibTeX File Manager Test Suite', () => {
+    const manager = new BibTeXFileManager(new ConfigurationManager(), new BibliographyResolver());
+    let dir: string;
+
+    setup(() => {
+        dir = fs.mkdtempSync(path.join(os.tmpdir(), 'zotero-cite-'));
+    });
+
+    teardown(() => {
+        fs.rmSync(dir, { recursive: true, force: true });
+    });
+
+    test('Appending to a Latin-1 file keeps its encoding, and undo restores its bytes', async () => {
+        const file = path.join(dir, 'refs.bib');
+        const original = Buffer.from('@book{m,\n  author = {Müller}\n}\n', 'latin1');
+        fs.writeFileSync(file, original);
+
+        const transaction = new EditTransaction();
+        await manager.appendEntries(vscode.Uri.file(file), '@misc{g,\n  author = {Gödel}\n}', new Set(['m']), transaction);
+        assert.ok(await transaction.apply());
+
+        assert.strictEqual(
+            fs.readFileSync(file).toString('latin1'),
+            '@book{m,\n  author = {Müller}\n}\n\n@misc{g,\n  author = {Gödel}\n}\n'
+        );
+        assert.ok(!fs.readFileSync(file).includes(Buffer.from('\uFFFD', 'utf8')));
+
+        assert.ok(await transaction.undo());
+        assert.deepStrictEqual(fs.readFileSync(file), original);
+    });
+
+    test('Duplicates are replaced where they are now, after the file changed', async () => {
+        const file = path.join(dir, 'refs.bib');
+        const updated = '@article{smith2020,\n  title = {New}\n}';
+        fs.writeFileSync(file, '@article{smith2020,\n  title = {Old}\n}\n');
+        const duplicates = DuplicateDetector.detectDuplicates(updated, fs.readFileSync(file, 'utf8'));
+
+        // Changed while the duplicate dialog was open
+        fs.writeFileSync(file, '@misc{added,\n  note = {Meanwhile}\n}\n\n@article{smith2020,\n  title = {Old}\n}\n');
+        await manager.replaceDuplicates(vscode.Uri.file(file), updated, duplicates);
+
+        assert.strictEqual(
+            fs.readFileSync(file, 'utf8'),
+            '@misc{added,\n  note = {Meanwhile}\n}\n\n@article{smith2020,\n  title = {New}\n}\n'
+        );
+    });
+
+    test('Undo leaves a directly written file alone once it changed again', async () => {
+        const file = path.join(dir, 'refs.bib');
+        fs.writeFileSync(file, '@misc{a,\n}\n');
+
+        const transaction = new EditTransaction();
+        await manager.appendEntries(vscode.Uri.file(file), '@misc{b,\n}', new Set(), transaction);
+        assert.ok(await transaction.apply());
+        fs.appendFileSync(file, '% by hand\n');
+
+        assert.ok(!(await transaction.undo()));
+        assert.ok(fs.readFileSync(file, 'utf8').endsWith('@misc{b,\n}\n% by hand\n'));
+    });
+});
@@ -0,0 +1,52 @@
+import * as assert from 'assert';
+import { BibTeXParser } from '../../bibtexParser';
+
+suite('BibTeX Parser Test Suite', () => {
+    test('Nodes cover the whole source', () => {
+        const source = '% header\n@string{acm = "ACM"}\n\n@article{a, title = {T}}\nfooter\n';
+        const parsed = BibTeXParser.parse(source);
+        assert.strictEqual(parsed.nodes.map(node => node.raw).join(''), source);
+        assert.deepStrictEqual(parsed.nodes.map(node => node.kind), ['text', 'string', 'text', 'entry', 'text']);
+    });
+
+    test('Nested braces, @ and hyphenated field names', () => {
+        const parsed = BibTeXParser.parse('@article{smith:2020.deep,\n  title = {Deep {Learning} @ Scale},\n  date-added = {2020-01-01}}');
+        const entry = parsed.entries[0];
+        assert.strictEqual(entry.key, 'smith:2020.deep');
+        assert.strictEqual(BibTeXParser.getField(entry, 'title'), 'Deep {Learning} @ Scale');
+        assert.strictEqual(BibTeXParser.getField(entry, 'date-added'), '2020-01-01');
+    });
+
+    test('Macros and # concatenation are resolved', () => {
+        const parsed = BibTeXParser.parse('@string{acm = "ACM"}\n@book(b, publisher = acm # { Press}, year = 2020)');
+        const entry = parsed.entries[0];
+        assert.strictEqual(BibTeXParser.getField(entry, 'publisher'), 'ACM Press');
+        assert.strictEqual(BibTeXParser.getField(entry, 'year'), '2020');
+    });
+
+    test('@comment and @preamble are not entries', () => {
+        const parsed = BibTeXParser.parse('@comment{@article{hidden, title={x}}}\n@preamble{"\\newcommand{\\x}{y}"}\n');
+        assert.strictEqual(parsed.entries.length, 0);
+        assert.deepStrictEqual(parsed.nodes.filter(n => n.kind !== 'text').map(n => n.kind), ['comment', 'preamble']);
+    });
+
+    test('Entries not closed by a newline brace are parsed', () => {
+        const parsed = BibTeXParser.parse('@misc{a, title={x}} @misc{b, title={y}}');
+        assert.deepStrictEqual(parsed.entries.map(e => e.key), ['a', 'b']);
+    });
+
+    test('Malformed entries do not swallow following entries', () => {
+        const parsed = BibTeXParser.parse('@misc{broken, title = {unclosed\n@misc{after, title={ok}}\n');
+        assert.deepStrictEqual(parsed.entries.map(e => e.key), ['broken', 'after']);
+        assert.ok(parsed.entries[0].error);
+        assert.strictEqual(parsed.entries[1].error, undefined);
+    });
+
+    test('Source offsets point at the key and fields', () => {
+        const source = '\n@article{key1,\n  year = {2021}\n}';
+        const entry = BibTeXParser.parse(source).entries[0];
+        assert.strictEqual(source.slice(entry.keyStart, entry.keyEnd), 'key1');
+        const field = entry.fields[0];
+        assert.strictEqual(source.slice(field.start, field.end), 'year = {2021}');
+    });
+});
@@ -0,0 +1,66 @@
+import * as assert from 'assert';
+import { BibTeXWriter } from '../../bibtexWriter';
+
+suite('BibTeX Writer Test Suite', () => {
+    const source = [
+        '% Managed by hand',
+        '@string{acm = "ACM"}',
+        '',
+        '@article{a,',
+        '  title = {A}',
+        '}',
+        '',
+        '@article{b,',
+        '  title = {B}',
+        '}',
+        ''
+    ].join('\r\n');
+
+    test('Replacing an entry leaves other bytes untouched', () => {
+        const writer = new BibTeXWriter(source);
+        const entry = writer.getEntries().find(e => e.key === 'a')!;
+        writer.replaceEntry(entry, '@article{a,\n  title = {New A}\n}');
+        assert.strictEqual(writer.toString(), source.replace('{A}', '{New A}'));
+    });
+
+    test('Deleting an entry removes its blank separator only', () => {
+        const writer = new BibTeXWriter(source);
+        writer.deleteEntry(writer.getEntries().find(e => e.key === 'a')!);
+        assert.strictEqual(
+            writer.toString(),
+            '% Managed by hand\r\n@string{acm = "ACM"}\r\n\r\n@article{b,\r\n  title = {B}\r\n}\r\n'
+        );
+    });
+
+    test('Deleting the last entry does not leave a trailing blank line', () => {
+        const writer = new BibTeXWriter(source);
+        writer.deleteEntry(writer.getEntries().find(e => e.key === 'b')!);
+        assert.ok(writer.toString().endsWith('  title = {A}\r\n}\r\n'));
+    });
+
+    test('Deleting neighbouring entries merges the edits', () => {
+        const text = '@a{k1,\n t={x}\n}\n\n@a{k2,\n t={y}\n}\n\n@a{k3,\n t={z}\n}\n';
+        const writer = new BibTeXWriter(text);
+        writer.deleteEntries(writer.getEntries().filter(entry => entry.key !== 'k1'));
+        assert.strictEqual(writer.toString(), '@a{k1,\n t={x}\n}\n');
+        assert.strictEqual(writer.getEdits().length, 1);
+    });
+
+    test('Inserted entries use the file line endings', () => {
+        const writer = new BibTeXWriter(source);
+        writer.insertEntries(['@misc{c,\n  title = {C}\n}']);
+        assert.strictEqual(writer.toString(), source + '\r\n@misc{c,\r\n  title = {C}\r\n}\r\n');
+    });
+
+    test('Encoding and BOM survive a round trip', () => {
+        const bytes = BibTeXWriter.encode('@misc{m, title={Müller}}\n', 'utf8bom');
+        const decoded = BibTeXWriter.decode(bytes);
+        assert.strictEqual(decoded.encoding, 'utf8bom');
+        assert.strictEqual(decoded.text, '@misc{m, title={Müller}}\n');
+        assert.deepStrictEqual(BibTeXWriter.encode(decoded.text, decoded.encoding), bytes);
+
+        const latin1 = BibTeXWriter.decode(Buffer.from('@misc{m, title={Müller}}', 'latin1'));
+        assert.strictEqual(latin1.encoding, 'latin1');
+        assert.strictEqual(latin1.text, '@misc{m, title={Müller}}');
+    });
+});
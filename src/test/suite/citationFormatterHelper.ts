@@ -0,0 +1,20 @@
+import * as assert from 'assert';
+import { CitationFormatter } from '../../citationFormatter';
+import { CitationForm, PickedCitation } from '../../types';
+
+/**
+ * Text with the formatter's trigger (`@zoteroCite` or `@zoteroCite*`)
+ * replaced by the citation it builds
+ */
+export function cite(
+    formatter: CitationFormatter,
+    text: string,
+    citations: PickedCitation[],
+    form: CitationForm = 'parenthetical'
+): string {
+    const trigger = text.match(formatter.triggerPattern);
+    assert.ok(trigger && trigger.index !== undefined, `No trigger in "${text}"`);
+
+    const edit = formatter.cite(text, trigger.index, trigger.index + trigger[0].length, citations, form);
+    return text.slice(0, edit.start) + edit.newText + text.slice(edit.end);
+}
@@ -0,0 +1,20 @@
+import * as assert from 'assert';
+import { CitationInserter } from '../../citationInserter';
+
+suite('Citation Inserter Test Suite', () => {
+    const inserter = new CitationInserter();
+
+    test('Plain LaTeX keeps \\cite for citations without the author', () => {
+        assert.strictEqual(inserter.formatCitation([{ key: 'a', suppressAuthor: true }], 'cite'), '\\cite{a}');
+        assert.strictEqual(
+            inserter.formatCitation([{ key: 'a', suppressAuthor: true, locator: '4' }, { key: 'b', suppressAuthor: true, locator: '4' }], 'cite'),
+            '\\cite[p.~4]{a,b}'
+        );
+    });
+
+    test('natbib and biblatex switch to their author-suppressing commands', () => {
+        assert.strictEqual(inserter.formatCitation([{ key: 'a', suppressAuthor: true }], 'citet'), '\\citeyear{a}');
+        assert.strictEqual(inserter.formatCitation([{ key: 'a', suppressAuthor: true }], 'citep'), '\\citeyearpar{a}');
+        assert.strictEqual(inserter.formatCitation([{ key: 'a', suppressAuthor: true, locator: '4-5' }], 'autocite'), '\\autocite*[4-5]{a}');
+    });
+});
@@ -0,0 +1,40 @@
+import * as assert from 'assert';
+import { CiteCommandParser } from '../../citeCommandParser';
+
+suite('Cite Command Parser Test Suite', () => {
+    test('Optional arguments and starred forms', () => {
+        const text = 'See \\parencite[see][12]{a,b} and \\citet*{c}.';
+        const commands = CiteCommandParser.findAll(text);
+        assert.deepStrictEqual(commands.map(c => c.name), ['parencite', 'citet']);
+        assert.deepStrictEqual(commands[0].optionalArguments.map(a => a.text), ['see', '12']);
+        assert.deepStrictEqual(commands[0].keyGroups[0].keys.map(k => k.key), ['a', 'b']);
+        assert.strictEqual(commands[1].starred, true);
+    });
+
+    test('Multicite commands collect every key group', () => {
+        const text = '\\cites[p.~4]{a}[see]{b, c}';
+        const command = CiteCommandParser.findAll(text)[0];
+        assert.strictEqual(command.end, text.length);
+        assert.deepStrictEqual(command.keyGroups.map(g => g.keys.map(k => k.key)), [['a'], ['b', 'c']]);
+        assert.strictEqual(command.keyGroups[1].separator, ', ');
+    });
+
+    test('Key lists spanning lines', () => {
+        const text = '\\cite{\n  first,\n  second % note\n}';
+        const found = CiteCommandParser.findAt(text, text.indexOf('second'));
+        assert.ok(found);
+        assert.deepStrictEqual(found!.group.keys.map(k => k.key), ['first', 'second']);
+        assert.strictEqual(found!.group.separator, ',\n  ');
+    });
+
+    test('Commented out and non-citation commands are ignored', () => {
+        const text = '% \\cite{hidden}\n\\citestyle{plain} \\zoteroCite \\textbf{x}';
+        assert.strictEqual(CiteCommandParser.findAll(text).length, 0);
+    });
+
+    test('Offsets outside key lists are not inside a citation', () => {
+        const text = '\\cite[p.~4]{a}';
+        assert.strictEqual(CiteCommandParser.findAt(text, text.indexOf('p.')), null);
+        assert.ok(CiteCommandParser.findAt(text, text.indexOf('a}')));
+    });
+});
@@ -0,0 +1,100 @@
+import * as assert from 'assert';
+import { CSLBibliography } from '../../cslBibliography';
+
+suite('CSL Bibliography Test Suite', () => {
+    const yaml = [
+        '---',
+        'references:',
+        '- id: smith2020',
+        '  type: article-journal',
+        '  title: \'A Study: Part 1\'',
+        '  author:',
+        '    - family: Smith',
+        '      given: John',
+        '  issued:',
+        '    - year: 2020',
+        '  keyword: one, two',
+        '...',
+        ''
+    ].join('\n');
+
+    test('CSL-YAML items are parsed and compared like BibTeX entries', () => {
+        const items = CSLBibliography.parse(yaml, 'yaml');
+        assert.deepStrictEqual(items.map(item => item.id), ['smith2020']);
+
+        const entry = CSLBibliography.toDuplicateEntry(items[0]);
+        assert.strictEqual(entry.fields.get('title'), 'A Study: Part 1');
+        assert.strictEqual(entry.fields.get('author'), 'Smith');
+        assert.strictEqual(entry.fields.get('year'), '2020');
+        assert.strictEqual(CSLBibliography.getYear({ 'date-parts': [[1999, 5]] }), '1999');
+    });
+
+    test('Flow-style YAML values are read', () => {
+        const [item] = CSLBibliography.parse([
+            'references:',
+            '- {id: doe2021, title: "Flows, Again"}',
+            '- id: smith2020',
+            '  author: [{family: Smith, given: John}, {literal: \'O\'\'Brien & Co.\'}]',
+            '  issued: {date-parts: [[2020, 5]]}',
+            '  URL: https://example.org/a  # comment',
+            ''
+        ].join('\n'), 'yaml').slice(1);
+
+        assert.deepStrictEqual(item.data.author, [{ family: 'Smith', given: 'John' }, { literal: 'O\'Brien & Co.' }]);
+        assert.deepStrictEqual(item.data.issued, { 'date-parts': [['2020', '5']] });
+        assert.strictEqual(item.data.URL, 'https://example.org/a');
+        assert.strictEqual(CSLBibliography.parse('- {id: doe2021, title: "Flows, Again"}\n', 'yaml')[0].data.title, 'Flows, Again');
+    });
+
+    test('CSL-YAML items are appended, replaced and cleaned as text', () => {
+        const [doe] = CSLBibliography.parse('- id: doe2019\n  title: Book\n', 'yaml');
+        const [smith] = CSLBibliography.parse('- id: smith2020\n  title: New Title\n', 'yaml');
+
+        const appended = CSLBibliography.merge(yaml, 'yaml', [doe]);
+        assert.ok(appended.endsWith('  keyword: one, two\n- id: doe2019\n  title: Book\n...\n'));
+
+        const replaced = CSLBibliography.merge(yaml, 'yaml', [smith], new Map([['smith2020', smith]]));
+        assert.strictEqual(replaced, '---\nreferences:\n- id: smith2020\n  title: New Title\n...\n');
+
+        const cleaned = CSLBibliography.removeFields(yaml, 'yaml', ['keywords']);
+        assert.ok(!cleaned.includes('keyword'));
+        assert.ok(cleaned.includes('      given: John'));
+    });
+
+    test('CSL-JSON items are merged by id', () => {
+        const existing = '[\n    {\n        "id": "smith2020",\n        "title": "Old"\n    }\n]\n';
+        const [updated, added] = CSLBibliography.parse(
+            '[{"id": "smith2020", "title": "New", "keyword": "x"}, {"id": "doe2019", "title": "Book"}]',
+            'json'
+        );
+
+        const merged = JSON.parse(CSLBibliography.merge(existing, 'json', [updated, added], new Map([['smith2020', updated]])));
+        assert.deepStrictEqual(merged.map((item: any) => [item.id, item.title]), [['smith2020', 'New'], ['doe2019', 'Book']]);
+        assert.ok(CSLBibliography.merge(existing, 'json', [added]).startsWith('[\n    {'));
+
+        const cleaned = JSON.parse(CSLBibliography.removeFields('[{"id": "a", "keyword": "x", "DOI": "10.1/1"}]', 'json', ['keywords', 'doi']));
+        assert.deepStrictEqual(cleaned, [{ id: 'a' }]);
+        assert.strictEqual(CSLBibliography.getFormat('/refs/library.yml'), 'yaml');
+    });
+
+    test('CSL-JSON items are spliced into the file as written', () => {
+        const existing = '{"references": [\n  {"title": "Caf\\u00e9", "id": "a"},\n  {"id": "b", "DOI": "10.1/1"}\n], "lang": "en"}\n';
+        const [updated, added] = CSLBibliography.parse(
+            '[{"id": "a", "title": "Café", "note": "x"}, {"id": "c", "title": "Über"}]',
+            'json'
+        );
+
+        assert.strictEqual(
+            CSLBibliography.merge(existing, 'json', [updated, added], new Map([['a', updated]])),
+            '{"references": [\n  {"title": "Caf\\u00e9", "id": "a", "note": "x"},\n  {"id": "b", "DOI": "10.1/1"},\n  {"id": "c", "title": "\\u00dcber"}\n], "lang": "en"}\n'
+        );
+        assert.strictEqual(
+            CSLBibliography.removeFields(existing, 'json', ['doi']),
+            '{"references": [\n  {"title": "Caf\\u00e9", "id": "a"},\n  {"id": "b"}\n], "lang": "en"}\n'
+        );
+        assert.strictEqual(
+            CSLBibliography.merge('[]\n', 'json', [added]),
+            '[\n  {\n    "id": "c",\n    "title": "Über"\n  }\n]\n'
+        );
+    });
+});
@@ -0,0 +1,75 @@
+import * as assert from 'assert';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import * as vscode from 'vscode';
+import { EditTransaction } from '../../editTransaction';
+
+suite('Edit Transaction Test Suite', () => {
+    let dir: string;
+
+    const openFile = async (name: string, text: string) => {
+        const file = path.join(dir, name);
+        fs.writeFileSync(file, text);
+        return vscode.workspace.openTextDocument(vscode.Uri.file(file));
+    };
+
+    setup(() => {
+        dir = fs.mkdtempSync(path.join(os.tmpdir(), 'zotero-cite-'));
+    });
+
+    teardown(() => {
+        fs.rmSync(dir, { recursive: true, force: true });
+    });
+
+    test('Edits of several documents apply and undo together', async () => {
+        const tex = await openFile('main.tex', 'See \\zoteroCite.\n');
+        const bib = await openFile('refs.bib', '@misc{a,\n}\n');
+
+        const transaction = new EditTransaction();
+        transaction.replace(tex, new vscode.Range(0, 4, 0, 15), '\\cite{b}');
+        transaction.replaceOffsets(bib, [{ start: 11, end: 11, newText: '\n@misc{b,\n}\n' }]);
+        assert.ok(await transaction.apply());
+        assert.strictEqual(tex.getText(), 'See \\cite{b}.\n');
+        assert.strictEqual(fs.readFileSync(bib.uri.fsPath, 'utf8'), '@misc{a,\n}\n\n@misc{b,\n}\n');
+
+        assert.ok(await transaction.undo());
+        assert.strictEqual(tex.getText(), 'See \\zoteroCite.\n');
+        assert.strictEqual(fs.readFileSync(bib.uri.fsPath, 'utf8'), '@misc{a,\n}\n');
+    });
+
+    test('Only documents without unsaved changes are saved', async () => {
+        const clean = await openFile('clean.bib', '@misc{a,\n}\n');
+        const dirty = await openFile('dirty.bib', '@misc{c,\n}\n');
+        const unsaved = new vscode.WorkspaceEdit();
+        unsaved.insert(dirty.uri, new vscode.Position(0, 0), '% draft\n');
+        await vscode.workspace.applyEdit(unsaved);
+
+        const transaction = new EditTransaction();
+        transaction.replaceOffsets(clean, [{ start: 11, end: 11, newText: '@misc{b,\n}\n' }]);
+        transaction.replaceOffsets(dirty, [{ start: 19, end: 19, newText: '@misc{d,\n}\n' }]);
+        assert.ok(await transaction.apply());
+
+        assert.ok(!clean.isDirty);
+        assert.ok(dirty.isDirty);
+        assert.strictEqual(fs.readFileSync(dirty.uri.fsPath, 'utf8'), '@misc{c,\n}\n');
+        await dirty.save();
+    });
+
+    test('Undo is refused once a document changed again', async () => {
+        const bib = await openFile('refs.bib', '@misc{a,\n}\n');
+        const transaction = new EditTransaction();
+        transaction.replaceOffsets(bib, [{ start: 0, end: 0, newText: '@misc{b,\n}\n\n' }]);
+        assert.ok(await transaction.apply());
+        assert.ok(transaction.canUndo());
+
+        const later = new vscode.WorkspaceEdit();
+        later.insert(bib.uri, new vscode.Position(0, 0), '% edited\n');
+        await vscode.workspace.applyEdit(later);
+
+        assert.ok(!transaction.canUndo());
+        assert.ok(!(await transaction.undo()));
+        assert.strictEqual(bib.getText(), '% edited\n@misc{b,\n}\n\n@misc{a,\n}\n');
+        await bib.save();
+    });
+});
@@ -0,0 +1,63 @@
+import * as assert from 'assert';
+import { CSLBibliography } from '../../cslBibliography';
+import { HayagrivaBibliography } from '../../hayagrivaBibliography';
+
+suite('Hayagriva Bibliography Test Suite', () => {
+    const csl = JSON.stringify([{
+        id: 'smith2020',
+        type: 'article-journal',
+        title: 'A Study: Part 1',
+        'container-title': 'Journal of Tests',
+        author: [{ family: 'Smith', given: 'John' }],
+        issued: { 'date-parts': [[2020, 5]] },
+        volume: '12',
+        page: '3-5',
+        DOI: '10.1000/xyz'
+    }]);
+
+    test('CSL-JSON items are converted to Hayagriva entries', () => {
+        const [entry] = HayagrivaBibliography.fromCSL(CSLBibliography.parse(csl, 'json'));
+        assert.strictEqual(entry.raw, [
+            'smith2020:',
+            '  type: article',
+            '  title: "A Study: Part 1"',
+            '  author:',
+            '    - "Smith, John"',
+            '  date: 2020-05',
+            '  page-range: 3-5',
+            '  serial-number:',
+            '    doi: 10.1000/xyz',
+            '  parent:',
+            '    type: periodical',
+            '    title: Journal of Tests',
+            '    volume: 12'
+        ].join('\n'));
+    });
+
+    test('Hayagriva files are parsed and compared like BibTeX entries', () => {
+        const text = 'doe2019:\n  type: book\n  title: Book\n\n' + HayagrivaBibliography.fromCSL(CSLBibliography.parse(csl, 'json'))[0].raw + '\n';
+        assert.ok(HayagrivaBibliography.isHayagriva(text));
+        assert.ok(!HayagrivaBibliography.isHayagriva('---\nreferences:\n- id: a\n'));
+
+        const items = HayagrivaBibliography.parse(text);
+        assert.deepStrictEqual(items.map(item => item.id), ['doe2019', 'smith2020']);
+
+        const entry = HayagrivaBibliography.toDuplicateEntry(items[1]);
+        assert.strictEqual(entry.fields.get('title'), 'A Study: Part 1');
+        assert.strictEqual(entry.fields.get('author'), 'Smith');
+        assert.strictEqual(entry.fields.get('doi'), '10.1000/xyz');
+        assert.strictEqual(entry.fields.get('year'), '2020');
+    });
+
+    test('Entries are appended and replaced by key', () => {
+        const text = 'doe2019:\n  type: book\n  title: Old\n\nother:\n  type: misc\n';
+        const [doe] = HayagrivaBibliography.parse('doe2019:\n  type: book\n  title: New\n');
+        const [added] = HayagrivaBibliography.parse('new2021:\n  type: misc\n');
+
+        assert.strictEqual(
+            HayagrivaBibliography.merge(text, [doe, added], new Map([['doe2019', doe]])),
+            'doe2019:\n  type: book\n  title: New\n\nother:\n  type: misc\n\nnew2021:\n  type: misc\n'
+        );
+        assert.strictEqual(HayagrivaBibliography.merge('', [added]), 'new2021:\n  type: misc\n');
+    });
+});
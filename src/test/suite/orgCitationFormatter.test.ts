@@ -0,0 +1,26 @@
+import * as assert from 'assert';
+import { OrgCitationFormatter } from '../../orgCitationFormatter';
+import { getCitationFormatter } from '../../citationFormatter';
+import { cite } from './citationFormatterHelper';
+
+suite('Org Citation Formatter Test Suite', () => {
+    const formatter = new OrgCitationFormatter();
+
+    test('New citations in the chosen style', () => {
+        assert.strictEqual(cite(formatter, 'As shown @zoteroCite.', [{ key: 'a' }, { key: 'b', locator: '3-5' }]), 'As shown [cite:@a;@b pp. 3-5].');
+        assert.strictEqual(cite(formatter, '@zoteroCite shows', [{ key: 'doe2020' }], 'in-text'), '[cite/t:@doe2020] shows');
+        assert.strictEqual(cite(formatter, 'x @zoteroCite', [{ key: 'a', prefix: 'see' }], 'suppress-author'), 'x [cite/na:see @a]');
+        assert.strictEqual(cite(formatter, 'x @zoteroCite* y', [{ key: 'a' }], 'suppress-author'), 'x [cite/na:@a] y');
+    });
+
+    test('Picked references are merged into the citation around the trigger', () => {
+        assert.strictEqual(cite(formatter, 'Text [cite/t:see @a p. 4;@zoteroCite] more', [{ key: 'a' }, { key: 'b' }]), 'Text [cite/t:see @a p. 4;@b] more');
+        assert.strictEqual(cite(formatter, 'Text [cite:see @zoteroCite] more', [{ key: 'b' }]), 'Text [cite:see @b] more');
+        assert.strictEqual(cite(formatter, 'Text [cite:@zoteroCite', [{ key: 'b' }]), 'Text [cite:@b]');
+    });
+
+    test('Bibliographies come from #+bibliography keywords', () => {
+        assert.deepStrictEqual(formatter.findBibliographies('#+title: Notes\n#+bibliography: refs.bib\n#+BIBLIOGRAPHY: "more.json"\n'), ['refs.bib', 'more.json']);
+        assert.ok(getCitationFormatter({ languageId: 'org', fileName: '/doc/notes.txt' }) instanceof OrgCitationFormatter);
+    });
+});
@@ -0,0 +1,32 @@
+import * as assert from 'assert';
+import { PandocCitationFormatter } from '../../pandocCitationFormatter';
+import { getCitationFormatter } from '../../citationFormatter';
+import { cite } from './citationFormatterHelper';
+
+suite('Pandoc Citation Formatter Test Suite', () => {
+    const formatter = new PandocCitationFormatter();
+
+    test('New citations in brackets or in the text', () => {
+        assert.strictEqual(cite(formatter, 'As shown @zoteroCite.', [{ key: 'a' }, { key: 'b', locator: '3-5' }]), 'As shown [@a; @b, pp. 3-5].');
+        assert.strictEqual(cite(formatter, '@zoteroCite shows', [{ key: 'doe:2020' }], 'in-text'), '@doe:2020 shows');
+        assert.strictEqual(cite(formatter, 'x @zoteroCite', [{ key: 'odd key' }]), 'x [@{odd key}]');
+        assert.strictEqual(formatter.triggerPattern.exec('As shown @zoteroCite*.')?.[1], '*');
+        assert.strictEqual(cite(formatter, 'As shown @zoteroCite*.', [{ key: 'a' }], 'suppress-author'), 'As shown [-@a].');
+    });
+
+    test('Picked items are merged into the citation around the trigger', () => {
+        assert.strictEqual(cite(formatter, 'Text [see @a, p. 4; @zoteroCite] more', [{ key: 'a' }, { key: 'b' }]), 'Text [see @a, p. 4; @b] more');
+        assert.strictEqual(cite(formatter, 'Text [see @zoteroCite] more', [{ key: 'b' }]), 'Text [see @b] more');
+        assert.strictEqual(cite(formatter, 'Text [@zoteroCite', [{ key: 'b' }]), 'Text [@b]');
+        assert.strictEqual(cite(formatter, 'A [link @zoteroCite](url)', [{ key: 'b' }]), 'A [link [@b]](url)');
+    });
+
+    test('Bibliographies come from the YAML front matter', () => {
+        assert.deepStrictEqual(formatter.findBibliographies('---\ntitle: x\nbibliography: refs.bib\n---\n'), ['refs.bib']);
+        assert.deepStrictEqual(formatter.findBibliographies('---\nbibliography: ["a.bib", b.json]\n...\n'), ['a.bib', 'b.json']);
+        assert.deepStrictEqual(formatter.findBibliographies('---\nbibliography:\n  - a.bib\n  - "b.yaml"\nlang: en\n---\n'), ['a.bib', 'b.yaml']);
+        assert.deepStrictEqual(formatter.findBibliographies('# No front matter\nbibliography: refs.bib\n'), []);
+        assert.ok(getCitationFormatter({ languageId: 'plaintext', fileName: '/doc/report.qmd' }) instanceof PandocCitationFormatter);
+        assert.strictEqual(getCitationFormatter({ languageId: 'latex', fileName: '/doc/main.tex' }), undefined);
+    });
+});
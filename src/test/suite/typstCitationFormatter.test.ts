@@ -0,0 +1,28 @@
+import * as assert from 'assert';
+import { TypstCitationFormatter } from '../../typstCitationFormatter';
+import { getCitationFormatter } from '../../citationFormatter';
+import { cite } from './citationFormatterHelper';
+
+suite('Typst Citation Formatter Test Suite', () => {
+    const formatter = new TypstCitationFormatter();
+
+    test('Citations as references or #cite calls', () => {
+        assert.strictEqual(cite(formatter, 'As shown @zoteroCite.', [{ key: 'a' }, { key: 'b', locator: '3-5' }]), 'As shown @a @b[pp. 3-5].');
+        assert.strictEqual(cite(formatter, '@zoteroCite shows', [{ key: 'doe2020' }], 'in-text'), '#cite(<doe2020>, form: "prose") shows');
+        assert.strictEqual(cite(formatter, 'x @zoteroCite', [{ key: 'b', locator: '4' }], 'suppress-author'), 'x #cite(<b>, form: "year", supplement: [p. 4])');
+        assert.strictEqual(cite(formatter, 'x @zoteroCite', [{ key: 'odd key' }]), 'x #cite(label("odd key"))');
+        assert.strictEqual(cite(formatter, 'x @zoteroCite* y', [{ key: 'a' }], 'suppress-author'), 'x #cite(<a>, form: "year") y');
+    });
+
+    test('Keys already cited next to the trigger are left out', () => {
+        assert.strictEqual(cite(formatter, 'Text @a @zoteroCite more', [{ key: 'a' }, { key: 'b' }]), 'Text @a @b more');
+        assert.strictEqual(cite(formatter, 'Text @a[p. 2] @zoteroCite.', [{ key: 'a' }]), 'Text @a[p. 2].');
+        assert.strictEqual(cite(formatter, 'Text @zoteroCite @a more', [{ key: 'a' }]), 'Text @a more');
+    });
+
+    test('Bibliographies come from #bibliography calls', () => {
+        assert.deepStrictEqual(formatter.findBibliographies('= Intro\n#bibliography("refs.bib", style: "apa")\n'), ['refs.bib']);
+        assert.deepStrictEqual(formatter.findBibliographies('#bibliography(("a.bib", "b.yml"))\n// #bibliography("old.bib")\n'), ['a.bib', 'b.yml']);
+        assert.ok(getCitationFormatter({ languageId: 'plaintext', fileName: '/doc/paper.typ' }) instanceof TypstCitationFormatter);
+    });
+});
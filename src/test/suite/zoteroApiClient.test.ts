@@ -0,0 +1,97 @@
+import * as assert from 'assert';
+import { ZoteroAPIClient } from '../../zoteroApiClient';
+
+suite('Zotero API Client Test Suite', () => {
+    test('Endpoint defaults to the protocol port', () => {
+        const endpoint = ZoteroAPIClient.parseEndpoint('https://zotero.example.org/proxy/', 5000);
+        assert.deepStrictEqual(endpoint, {
+            protocol: 'https:',
+            hostname: 'zotero.example.org',
+            port: 443,
+            basePath: '/proxy',
+            timeout: 5000
+        });
+    });
+
+    test('Endpoint with explicit port and IPv6 host', () => {
+        const endpoint = ZoteroAPIClient.parseEndpoint('http://[::1]:23120', 30000);
+        assert.strictEqual(endpoint.hostname, '::1');
+        assert.strictEqual(endpoint.port, 23120);
+        assert.strictEqual(endpoint.basePath, '');
+    });
+
+    test('Invalid endpoints are rejected', () => {
+        assert.throws(() => ZoteroAPIClient.parseEndpoint('localhost:23119', 30000));
+        assert.throws(() => ZoteroAPIClient.parseEndpoint('ftp://localhost:23119', 30000));
+    });
+
+    test('Search results keep keys, creators and years', () => {
+        const results = ZoteroAPIClient.parseSearchResults([
+            {
+                citekey: 'smith2020',
+                title: 'A Title',
+                author: [{ family: 'Smith', given: 'J.' }, { family: 'Doe' }],
+                issued: { 'date-parts': [[2020, 5]] }
+            },
+            { title: 'No key' },
+            { citationKey: 'who2019', author: [{ literal: 'World Health Organization' }] }
+        ]);
+        assert.deepStrictEqual(results, [
+            { key: 'smith2020', title: 'A Title', authors: 'Smith and Doe', year: '2020' },
+            { key: 'who2019', authors: 'World Health Organization' }
+        ]);
+    });
+
+    test('Collection filters search by collection key', () => {
+        const keys = ZoteroAPIClient.parseCollectionKeys({
+            smith2020: [{ key: 'ABCD1234', name: 'Thesis' }, { key: 'EFGH5678', name: 'Reading' }],
+            doe2019: [{ key: 'ABCD1234', name: 'Thesis' }]
+        }, ['thesis', 'Unfiled']);
+        assert.deepStrictEqual(keys, ['ABCD1234']);
+
+        assert.deepStrictEqual(ZoteroAPIClient.buildSearchTerms('smith', ['ml'], keys), [
+            ['quicksearch-titleCreatorYear', 'contains', 'smith'],
+            ['tag', 'is', 'ml'],
+            ['collection', 'is', 'ABCD1234']
+        ]);
+        assert.strictEqual(ZoteroAPIClient.buildSearchTerms('smith', []), 'smith');
+    });
+
+    test('Selected items without citation keys fall back to item keys', () => {
+        const items = ZoteroAPIClient.parseSelectedItems(JSON.stringify([
+            { citationKey: 'smith2020', uri: 'http://zotero.org/users/local/abcd/items/ABCD2345' },
+            { uri: 'http://zotero.org/groups/12345/items/WXYZ6789' },
+            { title: 'Neither' }
+        ]));
+        assert.deepStrictEqual(items, [{ key: 'smith2020' }, { itemKey: 'WXYZ6789' }, {}]);
+        assert.deepStrictEqual(ZoteroAPIClient.parseSelectedItems(''), []);
+    });
+
+    test('Auto-exports need a path and keep collection paths', () => {
+        const exports = ZoteroAPIClient.parseAutoExports([
+            { path: '/home/me/thesis/refs.bib', type: 'collection', collection: '//Thesis' },
+            { path: '/home/me/all.bib', type: 'library' },
+            { type: 'collection' }
+        ]);
+        assert.deepStrictEqual(exports, [
+            { path: '/home/me/thesis/refs.bib', type: 'collection', collection: '//Thesis' },
+            { path: '/home/me/all.bib', type: 'library' }
+        ]);
+        assert.deepStrictEqual(ZoteroAPIClient.parseAutoExports(null), []);
+    });
+
+    test('Export options other than the translator use a pull export', () => {
+        assert.strictEqual(ZoteroAPIClient.buildExportQuery(['a'], { translator: 'Better BibLaTeX' }), null);
+
+        const query = new URLSearchParams(ZoteroAPIClient.buildExportQuery(['a', 'b'], {
+            translator: 'Better BibLaTeX',
+            useJournalAbbreviation: true,
+            asciiOutput: false
+        })!);
+        assert.strictEqual(query.get('citationKeys'), 'a,b');
+        assert.strictEqual(query.get('translator'), 'biblatex');
+        assert.strictEqual(query.get('useJournalAbbreviation'), 'true');
+        assert.strictEqual(query.get('asciiBibLaTeX'), 'false');
+        assert.strictEqual(query.has('exportNotes'), false);
+    });
+});
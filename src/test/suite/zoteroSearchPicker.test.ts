@@ -0,0 +1,20 @@
+import * as assert from 'assert';
+import { ZoteroSearchPicker } from '../../zoteroSearchPicker';
+
+suite('Zotero Search Picker Test Suite', () => {
+    test('Tag and collection filters are split from the search text', () => {
+        assert.deepStrictEqual(ZoteroSearchPicker.parseQuery('transformer #to-read attention @"PhD Thesis"'), {
+            text: 'transformer attention',
+            tags: ['to-read'],
+            collections: ['PhD Thesis']
+        });
+    });
+
+    test('Sigils inside words are part of the search text', () => {
+        assert.deepStrictEqual(ZoteroSearchPicker.parseQuery('C# user@example'), {
+            text: 'C# user@example',
+            tags: [],
+            collections: []
+        });
+    });
+});
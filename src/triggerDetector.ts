@@ -1,12 +1,13 @@
 /**
- * Trigger Detector for \zoteroCite command
+ * Trigger Detector for \zoteroCite command, and the triggers of other languages
  */
 
 import * as vscode from 'vscode';
+import { getCitationFormatter } from './citationFormatter';
 import { TriggerMatch } from './types';
 
 export class TriggerDetector {
-    private static readonly TRIGGER_PATTERN = /\\zoteroCite\b/;
+    private static readonly TRIGGER_PATTERN = /\\zoteroCite\b(\*)?/;
 
     /**
      * Check if document is a LaTeX file
@@ -16,15 +17,25 @@ export class TriggerDetector {
     }
 
     /**
-     * Detect \zoteroCite trigger in document changes
+     * Trigger pattern of the document's language, null for unsupported documents
+     */
+    private getTriggerPattern(document: vscode.TextDocument): RegExp | null {
+        if (this.isLatexFile(document)) {
+            return TriggerDetector.TRIGGER_PATTERN;
+        }
+        return getCitationFormatter(document)?.triggerPattern ?? null;
+    }
+
+    /**
+     * Detect \zoteroCite trigger (or the trigger of the document's language) in document changes
      */
     detectTrigger(
         document: vscode.TextDocument,
         changes: readonly vscode.TextDocumentContentChangeEvent[]
     ): TriggerMatch | null {
-        // Only process LaTeX files
-        if (!this.isLatexFile(document)) {
-            console.log('[TriggerDetector] Not a LaTeX file:', document.fileName, 'languageId:', document.languageId);
+        // Only process LaTeX files and languages with a citation formatter
+        if (!this.getTriggerPattern(document)) {
+            console.log('[TriggerDetector] Not a supported file:', document.fileName, 'languageId:', document.languageId);
             return null;
         }
 
@@ -38,30 +49,9 @@ export class TriggerDetector {
                     change.range.start.character + change.text.length
                 );
 
-                // Get the line content at this position
-                const lineContent = document.lineAt(position.line).text;
-                const textBeforeCursor = lineContent.substring(0, position.character);
-
-                // Check if \zoteroCite is complete (with word boundary)
-                if (TriggerDetector.TRIGGER_PATTERN.test(textBeforeCursor)) {
-                    // Find the exact range of \zoteroCite
-                    const match = textBeforeCursor.match(/\\zoteroCite\b/);
-                    if (match && match.index !== undefined) {
-                        const startChar = match.index;
-                        const endChar = startChar + match[0].length;
-
-                        const range = new vscode.Range(
-                            position.line,
-                            startChar,
-                            position.line,
-                            endChar
-                        );
-
-                        return {
-                            range,
-                            position
-                        };
-                    }
+                const match = this.findTriggerBefore(document, position);
+                if (match) {
+                    return match;
                 }
             }
         }
@@ -70,7 +60,37 @@ export class TriggerDetector {
     }
 
     /**
-     * Create a document change listener
+     * Find a complete trigger (with word boundary) on the line before `position`
+     */
+    findTriggerBefore(document: vscode.TextDocument, position: vscode.Position): TriggerMatch | null {
+        const pattern = this.getTriggerPattern(document);
+        if (!pattern) {
+            return null;
+        }
+
+        // Get the line content at this position
+        const lineContent = document.lineAt(position.line).text;
+        const textBeforeCursor = lineContent.substring(0, position.character);
+
+        // Find the exact range of the trigger, e.g. \zoteroCite or \zoteroCite*
+        const match = textBeforeCursor.match(pattern);
+        if (!match || match.index === undefined) {
+            return null;
+        }
+
+        const startChar = match.index;
+        const endChar = startChar + match[0].length;
+
+        return {
+            range: new vscode.Range(position.line, startChar, position.line, endChar),
+            position,
+            chooseCommand: match[1] === '*'
+        };
+    }
+
+    /**
+     * Create a document change listener. The cells of a notebook are
+     * documents of their own, so triggers typed in them are seen as well.
      */
     createChangeListener(
         onTriggerDetected: (document: vscode.TextDocument, match: TriggerMatch) => void
@@ -33,11 +33,101 @@ export interface JSONRPCError {
 }
 
 /**
- * Trigger match information when \zoteroCite is detected
+ * Trigger match information when \zoteroCite (or the trigger of another
+ * language, e.g. @zoteroCite) is detected
  */
 export interface TriggerMatch {
     range: vscode.Range;
     position: vscode.Position;
+    /** Set for the starred trigger \zoteroCite*, which asks for the citation command or form */
+    chooseCommand?: boolean;
+}
+
+/**
+ * LaTeX citation command name (without backslash)
+ */
+export type CitationCommand =
+    | 'cite'
+    | 'citep'
+    | 'citet'
+    | 'parencite'
+    | 'textcite'
+    | 'autocite'
+    | 'footcite'
+    | 'nocite';
+
+/**
+ * How a citation is written in markup other than LaTeX: in brackets, in
+ * the running text, or without the author's name
+ */
+export type CitationForm = 'parenthetical' | 'in-text' | 'suppress-author';
+
+/**
+ * What the user chose to cite with: a LaTeX command, or a citation form in
+ * other languages
+ */
+export type CitationStyle = CitationCommand | CitationForm;
+
+/**
+ * A citation picked in Zotero, with whatever the user entered in the picker
+ */
+export interface PickedCitation {
+    key: string;
+    locator?: string;
+    /** CSL locator label, e.g. "page" or "chapter" */
+    label?: string;
+    prefix?: string;
+    suffix?: string;
+    suppressAuthor?: boolean;
+}
+
+/**
+ * An item found by a Better BibTeX library search
+ */
+export interface ZoteroSearchResult {
+    key: string;
+    title?: string;
+    /** Family names, e.g. "Smith and Jones" */
+    authors?: string;
+    year?: string;
+    tags?: string[];
+    collections?: string[];
+}
+
+/**
+ * Restrictions for a Zotero library search
+ */
+export interface ZoteroSearchFilters {
+    tags?: string[];
+    collections?: string[];
+}
+
+/**
+ * Better BibTeX translator used to export entries. The CSL translators are
+ * used for CSL-JSON and CSL-YAML bibliographies.
+ */
+export type ExportTranslator = 'Better BibTeX' | 'Better BibLaTeX' | 'Better CSL JSON' | 'Better CSL YAML';
+
+/**
+ * How entries are exported from Zotero. Options left undefined follow
+ * Better BibTeX's own preferences.
+ */
+export interface ExportOptions {
+    translator: ExportTranslator;
+    useJournalAbbreviation?: boolean;
+    exportNotes?: boolean;
+    /** Convert non-ASCII characters to LaTeX commands */
+    asciiOutput?: boolean;
+}
+
+/**
+ * A file Better BibTeX keeps up to date from a collection or the whole library
+ */
+export interface AutoExport {
+    path: string;
+    type: 'library' | 'collection';
+    /** Collection path such as "//Thesis/Chapter 2" for collection exports */
+    collection?: string;
 }
 
 /**
@@ -66,6 +156,7 @@ export enum ErrorContext {
     NetworkError = 'NetworkError',
     FileAccessError = 'FileAccessError',
     UserCancelled = 'UserCancelled',
+    InvalidResponse = 'InvalidResponse',
     InvalidConfiguration = 'InvalidConfiguration'
 }
 
@@ -76,3 +167,16 @@ export interface ValidationResult {
     valid: boolean;
     errors: string[];
 }
+
+/**
+ * Where Better BibTeX is reached, parsed from the zoteroUrl setting
+ */
+export interface ZoteroEndpoint {
+    protocol: 'http:' | 'https:';
+    hostname: string;
+    port: number;
+    /** Path prefix without trailing slash, e.g. "" or "/proxy" */
+    basePath: string;
+    /** Request timeout in milliseconds */
+    timeout: number;
+}
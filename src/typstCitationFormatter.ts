@@ -0,0 +1,124 @@
+/**
+ * Typst Citation Formatter - `@key` and `#cite(<key>)` citations in Typst
+ * documents
+ */
+
+import { CitationEdit, CitationFormatter, CitationFormOption, formatPostnote } from './citationFormatter';
+import { CitationForm, PickedCitation } from './types';
+
+/**
+ * Keys that are valid labels, so `@key` and `<key>` can be written.
+ * A label doesn't end with `.` or `:`, which would read as punctuation.
+ */
+const PLAIN_KEY = /^[\p{L}\p{N}_](?:[\p{L}\p{N}_\-:.]*[\p{L}\p{N}_])?$/u;
+
+/**
+ * References separated by spaces, which Typst groups into one citation:
+ * `@a @b[p. 4]`. Group 1 is the key.
+ */
+const REFERENCE = String.raw`@([\p{L}\p{N}_](?:[\p{L}\p{N}_\-:.]*[\p{L}\p{N}_])?)(?:\[[^\]\n]*\])?`;
+const CLUSTER_BEFORE = new RegExp(String.raw`(?<![\w@])(?:${REFERENCE}[ \t]+)+$`, 'u');
+const CLUSTER_AFTER = new RegExp(String.raw`^(?:[ \t]+${REFERENCE})+(?![\p{L}\p{N}_])`, 'u');
+
+export class TypstCitationFormatter implements CitationFormatter {
+    readonly languageIds = ['typst'];
+    readonly extensions = ['.typ'];
+    readonly trigger = '@zoteroCite';
+    readonly triggerPattern = /(?<![\w@])@zoteroCite\b(\*)?/;
+    readonly forms: ReadonlyArray<CitationFormOption> = [
+        { form: 'parenthetical', label: '@key', description: 'Normal citation' },
+        { form: 'in-text', label: '#cite(<key>, form: "prose")', description: 'In the running text' },
+        { form: 'suppress-author', label: '#cite(<key>, form: "year")', description: 'Year only' }
+    ];
+    readonly yamlFormat = 'hayagriva';
+
+    /**
+     * Next to references (`@a @zoteroCite`), keys already cited there are
+     * left out, so the group doesn't cite an item twice
+     */
+    cite(text: string, start: number, end: number, citations: PickedCitation[], form: CitationForm): CitationEdit {
+        let picked = citations.filter((citation, i) => citations.findIndex(c => c.key === citation.key) === i);
+
+        if (form === 'parenthetical') {
+            const lineStart = text.lastIndexOf('\n', start - 1) + 1;
+            const lineEnd = text.indexOf('\n', end) === -1 ? text.length : text.indexOf('\n', end);
+            const before = text.slice(lineStart, start).match(CLUSTER_BEFORE)?.[0] ?? '';
+            const after = text.slice(end, lineEnd).match(CLUSTER_AFTER)?.[0] ?? '';
+            const cited = new Set(TypstCitationFormatter.findKeys(before + after));
+            picked = picked.filter(citation => !cited.has(citation.key));
+
+            // Everything was cited already: drop the trigger and the space that
+            // separated it from the references before or after it
+            if (picked.length === 0 && before) {
+                return { start: start - 1, end, newText: '', cursor: start - 1 };
+            }
+            if (picked.length === 0 && after) {
+                return { start, end: end + after.search(/\S/), newText: '', cursor: start };
+            }
+        }
+
+        const newText = this.format(picked, form);
+        return { start, end, newText, cursor: start + newText.length };
+    }
+
+    /**
+     * Files of `#bibliography("refs.bib")` and
+     * `#bibliography(("a.bib", "b.yml"))`, outside comments
+     */
+    findBibliographies(text: string): string[] {
+        const uncommented = text.replace(/\/\*[\s\S]*?\*\//g, '').replace(/(^|[^:])\/\/.*$/gm, '$1');
+        const files: string[] = [];
+        const pattern = /#bibliography\(\s*(\([^)]*\)|"(?:[^"\\]|\\.)*")/g;
+        let match;
+
+        while ((match = pattern.exec(uncommented)) !== null) {
+            for (const name of match[1].matchAll(/"((?:[^"\\]|\\.)*)"/g)) {
+                const file = name[1].replace(/\\(.)/g, '$1').trim();
+                if (file && !files.includes(file)) {
+                    files.push(file);
+                }
+            }
+        }
+
+        return files;
+    }
+
+    /**
+     * A new citation in the chosen form
+     */
+    private format(citations: PickedCitation[], form: CitationForm): string {
+        return citations
+            .map(citation => {
+                const prefix = (citation.prefix || '').trim();
+                const supplement = formatPostnote(citation);
+                const cite = form === 'parenthetical' && PLAIN_KEY.test(citation.key)
+                    ? `@${citation.key}${supplement ? `[${supplement}]` : ''}`
+                    : this.formatCite(citation.key, form, supplement);
+                return `${prefix ? `${prefix} ` : ''}${cite}`;
+            })
+            .join(form === 'in-text' ? ', ' : ' ');
+    }
+
+    /**
+     * `#cite(<key>, form: "prose", supplement: [p. 4])`
+     */
+    private formatCite(key: string, form: CitationForm, supplement: string): string {
+        const args = [PLAIN_KEY.test(key) ? `<${key}>` : `label(${JSON.stringify(key)})`];
+        if (form === 'in-text') {
+            args.push('form: "prose"');
+        } else if (form === 'suppress-author') {
+            args.push('form: "year"');
+        }
+        if (supplement) {
+            args.push(`supplement: [${supplement}]`);
+        }
+        return `#cite(${args.join(', ')})`;
+    }
+
+    /**
+     * Keys of `@key` references in a piece of text
+     */
+    private static findKeys(text: string): string[] {
+        return [...text.matchAll(new RegExp(REFERENCE, 'gu'))].map(match => match[1]);
+    }
+}
@@ -2,16 +2,130 @@
  * Zotero API Client for Better BibTeX JSON-RPC communication
  */
 
+import * as fs from 'fs';
 import * as http from 'http';
-import { JSONRPCRequest, JSONRPCResponse } from './types';
+import * as https from 'https';
+import * as os from 'os';
+import * as path from 'path';
+import { AutoExport, ExportOptions, JSONRPCRequest, JSONRPCResponse, PickedCitation, ZoteroEndpoint, ZoteroSearchFilters, ZoteroSearchResult } from './types';
+import { BibEntryFormatter } from './bibEntryFormatter';
+import { CSLBibliography } from './cslBibliography';
+import { ZoteroResponseError } from './errorHandler';
 
-const ZOTERO_API_BASE = 'localhost';
-const ZOTERO_API_PORT = 23119;
-const ZOTERO_API_PATH = '/better-bibtex/json-rpc';
-const REQUEST_TIMEOUT = 30000; // 30 seconds
+export const DEFAULT_ZOTERO_URL = 'http://localhost:23119';
+export const DEFAULT_REQUEST_TIMEOUT = 30000; // 30 seconds
+const JSON_RPC_PATH = '/better-bibtex/json-rpc';
+const CAYW_PATH = '/better-bibtex/cayw';
+const EXPORT_ITEM_PATH = '/better-bibtex/export/item';
+
+/**
+ * Names of the translators in pull export URLs
+ */
+const PULL_EXPORT_TRANSLATORS: { [translator: string]: string } = {
+    'Better BibTeX': 'bibtex',
+    'Better BibLaTeX': 'biblatex',
+    'Better CSL JSON': 'csljson',
+    'Better CSL YAML': 'cslyaml'
+};
+
+const DEFAULT_EXPORT_OPTIONS: ExportOptions = { translator: 'Better BibTeX' };
+
+/**
+ * An object of a Zotero response, whose fields are checked before use
+ */
+interface ResponseObject {
+    [field: string]: unknown;
+}
+
+function isResponseObject(value: unknown): value is ResponseObject {
+    return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+/**
+ * Citation key of an item, under any of the names Better BibTeX uses
+ */
+function getCitationKey(item: ResponseObject): string | undefined {
+    const key = item.citationKey ?? item.citekey ?? item['citation-key'];
+    return typeof key === 'string' && key !== '' ? key : undefined;
+}
 
 export class ZoteroAPIClient {
     private requestIdCounter = 0;
+    private endpoint: ZoteroEndpoint = ZoteroAPIClient.parseEndpoint(DEFAULT_ZOTERO_URL, DEFAULT_REQUEST_TIMEOUT);
+
+    /**
+     * Point the client at another Zotero, e.g. the Windows host from WSL.
+     * Takes effect for the next request.
+     */
+    configure(url: string, timeout: number): void {
+        this.endpoint = ZoteroAPIClient.parseEndpoint(url, timeout);
+    }
+
+    /**
+     * Base URL requests currently go to
+     */
+    getBaseUrl(): string {
+        const { protocol, hostname, port, basePath } = this.endpoint;
+        return `${protocol}//${hostname}:${port}${basePath}`;
+    }
+
+    /**
+     * Parse a base URL such as `http://172.17.0.1:23119` or
+     * `https://zotero.example.org/proxy`
+     */
+    static parseEndpoint(url: string, timeout: number): ZoteroEndpoint {
+        let parsed: URL;
+        try {
+            parsed = new URL(url.trim());
+        } catch (error) {
+            throw new Error(`Invalid Zotero URL: ${url}`);
+        }
+
+        if (parsed.protocol !== 'http:' && parsed.protocol !== 'https:') {
+            throw new Error(`Zotero URL must use http or https: ${url}`);
+        }
+
+        return {
+            protocol: parsed.protocol,
+            // Strip the brackets of IPv6 literals
+            hostname: parsed.hostname.replace(/^\[(.*)\]$/, '$1'),
+            port: parsed.port ? Number(parsed.port) : (parsed.protocol === 'https:' ? 443 : 80),
+            basePath: parsed.pathname.replace(/\/+$/, ''),
+            timeout: timeout > 0 ? timeout : DEFAULT_REQUEST_TIMEOUT
+        };
+    }
+
+    /**
+     * Request options and transport for a path below the base URL
+     */
+    private createRequest(
+        path: string,
+        options: http.RequestOptions,
+        callback: (res: http.IncomingMessage) => void
+    ): http.ClientRequest {
+        const { protocol, hostname, port, basePath, timeout } = this.endpoint;
+        const transport = protocol === 'https:' ? https : http;
+
+        return transport.request({ ...options, hostname, port, path: basePath + path, timeout }, callback);
+    }
+
+    /**
+     * Describe connection errors, naming the URL when it isn't the default
+     */
+    private describeConnectionError(err: NodeJS.ErrnoException, fallback: string): Error {
+        const where = this.getBaseUrl() === DEFAULT_ZOTERO_URL ? '' : ` at ${this.getBaseUrl()}`;
+
+        switch (err.code) {
+            case 'ECONNREFUSED':
+            case 'ENOTFOUND':
+            case 'EHOSTUNREACH':
+                return new Error(`Zotero is not running${where}. Please start Zotero and ensure Better BibTeX plugin is installed.`);
+            case 'ETIMEDOUT':
+                return new Error(`Request timed out${where}. Please ensure Zotero is running.`);
+            default:
+                return new Error(`${fallback}: ${err.message}`);
+        }
+    }
 
     /**
      * Generate a unique request ID for JSON-RPC
@@ -37,19 +151,17 @@ export class ZoteroAPIClient {
 
         return new Promise((resolve, reject) => {
             const options: http.RequestOptions = {
-                hostname: ZOTERO_API_BASE,
-                port: ZOTERO_API_PORT,
-                path: ZOTERO_API_PATH,
                 method: 'POST',
                 headers: {
                     'Content-Type': 'application/json',
                     'Content-Length': Buffer.byteLength(postData)
-                },
-                timeout: REQUEST_TIMEOUT
+                }
             };
 
-            const req = http.request(options, (res) => {
+            const req = this.createRequest(JSON_RPC_PATH, options, (res) => {
                 let data = '';
+                // Decode as UTF-8 across chunk boundaries so non-ASCII keys arrive intact
+                res.setEncoding('utf8');
 
                 res.on('data', (chunk) => {
                     data += chunk;
@@ -73,13 +185,7 @@ export class ZoteroAPIClient {
             });
 
             req.on('error', (err: NodeJS.ErrnoException) => {
-                if (err.code === 'ECONNREFUSED') {
-                    reject(new Error('Zotero is not running. Please start Zotero and try again.'));
-                } else if (err.code === 'ETIMEDOUT') {
-                    reject(new Error('Request timed out. Please ensure Zotero is running.'));
-                } else {
-                    reject(new Error(`Network error: ${err.message}`));
-                }
+                reject(this.describeConnectionError(err, 'Network error'));
             });
 
             req.on('timeout', () => {
@@ -123,24 +229,136 @@ export class ZoteroAPIClient {
         }
     }
 
+    /**
+     * Files Better BibTeX auto-exports to
+     */
+    async getAutoExports(): Promise<AutoExport[]> {
+        const result = await this.makeRequest<unknown>('autoexport.list');
+        return ZoteroAPIClient.parseAutoExports(result);
+    }
+
+    /**
+     * Parse the auto-export list, skipping entries without a path
+     */
+    static parseAutoExports(result: unknown): AutoExport[] {
+        if (!Array.isArray(result)) {
+            return [];
+        }
+
+        return (result as unknown[]).flatMap((item): AutoExport[] => {
+            if (!isResponseObject(item) || typeof item.path !== 'string' || item.path === '') {
+                return [];
+            }
+            if (item.type !== 'collection') {
+                return [{ path: item.path, type: 'library' }];
+            }
+
+            const collection = item.collection ?? item.name;
+            return [typeof collection === 'string'
+                ? { path: item.path, type: 'collection', collection }
+                : { path: item.path, type: 'collection' }];
+        });
+    }
+
+    /**
+     * Add the items with the given citation keys to a collection, so its
+     * auto-export picks them up. Better BibTeX reads the keys from an .aux
+     * file, which therefore has to be readable by Zotero.
+     * @param collection Collection path such as "//Thesis"
+     */
+    async addToCollection(collection: string, citationKeys: string[]): Promise<void> {
+        const auxFile = path.join(os.tmpdir(), `zotero-cite-${process.pid}-${Date.now()}.aux`);
+        await fs.promises.writeFile(auxFile, `\\citation{${citationKeys.join(',')}}\n`, 'utf8');
+
+        try {
+            await this.makeRequest('collection.scanAUX', [collection, auxFile]);
+        } catch (error) {
+            throw new Error(`Failed to add items to collection ${collection}: ${error instanceof Error ? error.message : error}`);
+        } finally {
+            await fs.promises.unlink(auxFile).catch(() => undefined);
+        }
+    }
+
     /**
      * Invoke Zotero's CAYW (Cite As You Write) picker
-     * Returns array of selected citation keys
+     * Returns the selected citations with their locators, prefixes and suffixes
      */
-    async invokePicker(): Promise<string[]> {
-        // Use HTTP GET for CAYW endpoint with pandoc format
-        // This returns citation keys directly in format: [@key1; @key2]
-        return new Promise((resolve, reject) => {
-            const options: http.RequestOptions = {
-                hostname: ZOTERO_API_BASE,
-                port: ZOTERO_API_PORT,
-                path: '/better-bibtex/cayw?format=pandoc',
-                method: 'GET',
-                timeout: REQUEST_TIMEOUT
-            };
+    async invokePicker(): Promise<PickedCitation[]> {
+        // Use HTTP GET for CAYW endpoint with JSON format
+        // This returns one object per citation with key, locator, prefix, suffix, ...
+        const data = await this.requestCAYW('format=json', 'Failed to open Zotero picker');
+        return ZoteroAPIClient.parseCAYWResponse(data);
+    }
+
+    /**
+     * Citations for the items currently selected in the Zotero pane, without
+     * opening the picker. Items whose citation key isn't part of the response
+     * are looked up by their item key.
+     */
+    async getSelectedCitations(): Promise<PickedCitation[]> {
+        const data = await this.requestCAYW('selected=1&format=json', 'Failed to read the Zotero selection');
+        const items = ZoteroAPIClient.parseSelectedItems(data);
+
+        const itemKeys = items.filter(item => !item.key && item.itemKey).map(item => item.itemKey!);
+        const resolved = itemKeys.length > 0 ? await this.getCitationKeys(itemKeys) : {};
+
+        return items.map(item => {
+            const key = item.key ?? (item.itemKey ? resolved[item.itemKey] : undefined);
+            if (!key) {
+                throw new ZoteroResponseError(
+                    item.itemKey ? `Selected Zotero item ${item.itemKey} has no citation key` : 'A selected Zotero item has no citation key',
+                    data
+                );
+            }
+            return { key };
+        });
+    }
+
+    /**
+     * Citation keys, or else Zotero item keys (from the item URI, e.g.
+     * `http://zotero.org/users/local/abcd/items/ABCD2345`), of a CAYW
+     * `selected=1` response
+     */
+    static parseSelectedItems(payload: string): { key?: string; itemKey?: string }[] {
+        if (payload.trim() === '') {
+            return [];
+        }
+
+        let items: unknown;
+        try {
+            items = JSON.parse(payload);
+        } catch (error) {
+            throw new ZoteroResponseError(`Failed to parse Zotero selection: ${error}`, payload);
+        }
+
+        if (!Array.isArray(items)) {
+            throw new ZoteroResponseError('Zotero selection is not a list of items', payload);
+        }
 
-            const req = http.request(options, (res) => {
+        return (items as unknown[]).map(item => {
+            if (!isResponseObject(item)) {
+                return {};
+            }
+            const key = getCitationKey(item);
+            if (key) {
+                return { key };
+            }
+
+            const uri: unknown = Array.isArray(item.uris) ? item.uris[0] : item.uri;
+            const itemKey = typeof uri === 'string' ? uri.match(/\/items\/([A-Z0-9]+)$/)?.[1] : undefined;
+            return itemKey ? { itemKey } : {};
+        });
+    }
+
+    /**
+     * GET a CAYW URL and return the response body
+     */
+    private requestCAYW(query: string, failure: string): Promise<string> {
+        return new Promise((resolve, reject) => {
+            const req = this.createRequest(`${CAYW_PATH}?${query}`, { method: 'GET' }, (res) => {
                 let data = '';
+                // Decode as UTF-8 across chunk boundaries so non-ASCII keys arrive intact
+                res.setEncoding('utf8');
 
                 res.on('data', (chunk) => {
                     data += chunk;
@@ -157,36 +375,12 @@ export class ZoteroAPIClient {
                         return;
                     }
 
-                    // If user cancelled, data will be empty
-                    if (data.trim() === '') {
-                        resolve([]);
-                        return;
-                    }
-
-                    // Parse pandoc format: [@key1; @key2] or @key1
-                    // Extract citation keys by finding all @word patterns
-                    const citationKeys: string[] = data
-                        .split(/[^a-zA-Z0-9@_-]+/)
-                        .filter(s => s.startsWith('@') && s.length > 1)
-                        .map(s => s.substring(1));
-
-                    if (citationKeys.length === 0) {
-                        reject(new Error(`Failed to parse citation keys from response: ${data}`));
-                        return;
-                    }
-
-                    resolve(citationKeys);
+                    resolve(data);
                 });
             });
 
             req.on('error', (err: NodeJS.ErrnoException) => {
-                if (err.code === 'ECONNREFUSED') {
-                    reject(new Error('Cannot connect to Zotero. Please ensure Zotero is running and Better BibTeX plugin is installed.'));
-                } else if (err.code === 'ETIMEDOUT') {
-                    reject(new Error('Request timed out. Please ensure Zotero is running.'));
-                } else {
-                    reject(new Error(`Failed to open Zotero picker: ${err.message}`));
-                }
+                reject(this.describeConnectionError(err, failure));
             });
 
             req.on('timeout', () => {
@@ -198,49 +392,327 @@ export class ZoteroAPIClient {
         });
     }
 
+    /**
+     * Parse a CAYW `format=json` response into picked citations.
+     * Citation keys are passed through untouched, whatever characters they contain.
+     */
+    static parseCAYWResponse(payload: string): PickedCitation[] {
+        // If user cancelled, data will be empty
+        if (payload.trim() === '') {
+            return [];
+        }
+
+        let items: unknown;
+        try {
+            items = JSON.parse(payload);
+        } catch (error) {
+            throw new ZoteroResponseError(`Failed to parse Zotero picker response: ${error}`, payload);
+        }
+
+        if (!Array.isArray(items)) {
+            throw new ZoteroResponseError('Zotero picker response is not a list of citations', payload);
+        }
+
+        return (items as unknown[]).map((item): PickedCitation => {
+            const key = isResponseObject(item) ? getCitationKey(item) : undefined;
+            if (!isResponseObject(item) || !key) {
+                throw new ZoteroResponseError('Zotero picker returned a citation without a citation key', payload);
+            }
+
+            const citation: PickedCitation = { key };
+            for (const field of ['locator', 'label', 'prefix', 'suffix'] as const) {
+                const value = item[field];
+                if (typeof value === 'string' && value !== '') {
+                    citation[field] = value;
+                }
+            }
+            if (item.suppressAuthor === true) {
+                citation.suppressAuthor = true;
+            }
+            return citation;
+        });
+    }
+
+    /**
+     * Search the Zotero library through Better BibTeX
+     * @param query Words matched against titles, creators, years, ...
+     * @param filters Tags and collections the items must have
+     */
+    async searchItems(query: string, filters: ZoteroSearchFilters = {}): Promise<ZoteroSearchResult[]> {
+        const tags = filters.tags ?? [];
+        const collections = filters.collections ?? [];
+
+        const items = ZoteroAPIClient.parseSearchResults(
+            await this.makeRequest<unknown>('item.search', [ZoteroAPIClient.buildSearchTerms(query, tags)])
+        );
+        if (collections.length === 0 || items.length === 0) {
+            return items;
+        }
+
+        // Zotero matches collections by key, so the names are looked up among
+        // the collections of the items found without them
+        const collectionKeys = ZoteroAPIClient.parseCollectionKeys(
+            await this.makeRequest<unknown>('item.collections', [items.map(item => item.key)]),
+            collections
+        );
+        if (collectionKeys.length < collections.length) {
+            return [];
+        }
+
+        const filtered = await this.makeRequest<unknown>('item.search', [ZoteroAPIClient.buildSearchTerms(query, tags, collectionKeys)]);
+        return ZoteroAPIClient.parseSearchResults(filtered);
+    }
+
+    /**
+     * Terms of `item.search`: a plain string is a quick search, filters need
+     * Zotero search conditions
+     * @param collectionKeys Collection keys such as "ABCD1234", not names
+     */
+    static buildSearchTerms(query: string, tags: string[], collectionKeys: string[] = []): string | string[][] {
+        if (tags.length === 0 && collectionKeys.length === 0) {
+            return query;
+        }
+        return [
+            ...(query ? [['quicksearch-titleCreatorYear', 'contains', query]] : []),
+            ...tags.map(tag => ['tag', 'is', tag]),
+            ...collectionKeys.map(key => ['collection', 'is', key])
+        ];
+    }
+
+    /**
+     * Keys of the named collections (compared case-insensitively) in an
+     * `item.collections` response, which lists `{ key, name }` collections
+     * per citation key; names no item is filed under are left out
+     */
+    static parseCollectionKeys(result: unknown, names: string[]): string[] {
+        const keys = new Map<string, string>();
+        if (isResponseObject(result)) {
+            for (const collections of Object.values(result)) {
+                for (const collection of Array.isArray(collections) ? collections as unknown[] : []) {
+                    if (!isResponseObject(collection)) {
+                        continue;
+                    }
+                    const name = collection.name;
+                    if (typeof name === 'string' && typeof collection.key === 'string' && !keys.has(name.toLowerCase())) {
+                        keys.set(name.toLowerCase(), collection.key);
+                    }
+                }
+            }
+        }
+
+        return names.flatMap(name => {
+            const key = keys.get(name.toLowerCase());
+            return key ? [key] : [];
+        });
+    }
+
+    /**
+     * Turn the CSL-JSON items of `item.search` into search results;
+     * items without a citation key are skipped
+     */
+    static parseSearchResults(items: unknown): ZoteroSearchResult[] {
+        if (!Array.isArray(items)) {
+            throw new ZoteroResponseError('Zotero search response is not a list of items', JSON.stringify(items));
+        }
+
+        return (items as unknown[]).flatMap((item): ZoteroSearchResult[] => {
+            const key = isResponseObject(item) ? getCitationKey(item) : undefined;
+            if (!isResponseObject(item) || !key) {
+                return [];
+            }
+
+            const result: ZoteroSearchResult = { key };
+            if (typeof item.title === 'string') {
+                result.title = item.title;
+            }
+
+            const creators: unknown[] = Array.isArray(item.author) ? item.author : Array.isArray(item.editor) ? item.editor : [];
+            const families = creators
+                .map(creator => isResponseObject(creator) ? creator.family ?? creator.literal : undefined)
+                .filter((name): name is string => typeof name === 'string' && name !== '');
+            const authors = BibEntryFormatter.joinFamilyNames(families);
+            if (authors) {
+                result.authors = authors;
+            }
+
+            const year = ZoteroAPIClient.getIssuedYear(item.issued);
+            if (year !== undefined) {
+                result.year = year;
+            }
+
+            // Tags come as strings or { tag } objects, collections as names
+            const tags = ZoteroAPIClient.getNames(item.tags, 'tag');
+            if (tags.length > 0) {
+                result.tags = tags;
+            }
+            const collections = ZoteroAPIClient.getNames(item.collections, 'name');
+            if (collections.length > 0) {
+                result.collections = collections;
+            }
+            return [result];
+        });
+    }
+
+    /**
+     * Year of a CSL `issued` date: `{ date-parts: [[2020, 5]] }` or `{ raw: "2020-05" }`
+     */
+    private static getIssuedYear(issued: unknown): string | undefined {
+        if (!isResponseObject(issued)) {
+            return undefined;
+        }
+        const parts = issued['date-parts'];
+        const year: unknown = Array.isArray(parts) && Array.isArray(parts[0]) ? parts[0][0] : undefined;
+        if (typeof year === 'string' || typeof year === 'number') {
+            return String(year);
+        }
+        return typeof issued.raw === 'string' ? issued.raw.slice(0, 4) : undefined;
+    }
+
+    /**
+     * Strings of a list holding strings or objects with the string in `field`
+     */
+    private static getNames(values: unknown, field: string): string[] {
+        if (!Array.isArray(values)) {
+            return [];
+        }
+        return (values as unknown[])
+            .map(value => isResponseObject(value) ? value[field] : value)
+            .filter((name): name is string => typeof name === 'string');
+    }
+
     /**
      * Export BibTeX entries for given citation keys
      * @param citationKeys Array of citation keys (not item keys)
      * @returns BibTeX string
      */
-    async exportBibTeX(citationKeys: string[]): Promise<string> {
+    async exportBibTeX(citationKeys: string[], options: ExportOptions = DEFAULT_EXPORT_OPTIONS): Promise<string> {
         if (citationKeys.length === 0) {
             return '';
         }
 
+        const { bibtex, missingKeys } = await this.exportAvailableBibTeX(citationKeys, options);
+
+        if (missingKeys.length === citationKeys.length) {
+            throw new Error(`Failed to export BibTeX: citation keys not found in Zotero: ${missingKeys.join(', ')}`);
+        }
+        if (missingKeys.length > 0) {
+            console.warn(`Skipped invalid citation keys: ${missingKeys.join(', ')}`);
+        }
+
+        return bibtex;
+    }
+
+    /**
+     * Export BibTeX entries for citation keys that may not exist in Zotero
+     * @returns BibTeX of the keys Zotero knows, and the keys it doesn't
+     */
+    async exportAvailableBibTeX(
+        citationKeys: string[],
+        options: ExportOptions = DEFAULT_EXPORT_OPTIONS
+    ): Promise<{ bibtex: string; missingKeys: string[] }> {
+        if (citationKeys.length === 0) {
+            return { bibtex: '', missingKeys: [] };
+        }
+
         try {
-            const bibtex = await this.makeRequest<string>('item.export', [citationKeys, 'Better BibTeX']);
-            return bibtex;
+            const bibtex = await this.exportItems(citationKeys, options);
+            return { bibtex, missingKeys: [] };
         } catch (error) {
             const errorMsg = error instanceof Error ? error.message : String(error);
             
-            // If error mentions "not found", try to identify which keys are invalid
-            if (errorMsg.includes('not found')) {
-                // Try exporting keys one by one to identify valid ones
-                const validEntries: string[] = [];
-                const invalidKeys: string[] = [];
-                
-                for (const key of citationKeys) {
-                    try {
-                        const entry = await this.makeRequest<string>('item.export', [[key], 'Better BibTeX']);
-                        if (entry && entry.trim()) {
-                            validEntries.push(entry);
-                        }
-                    } catch (keyError) {
-                        invalidKeys.push(key);
-                    }
-                }
-                
-                if (validEntries.length > 0) {
-                    // Return valid entries and log invalid keys
-                    if (invalidKeys.length > 0) {
-                        console.warn(`Skipped invalid citation keys: ${invalidKeys.join(', ')}`);
+            // Only "not found" means some keys are invalid; anything else is a real failure
+            if (!errorMsg.includes('not found')) {
+                throw new Error(`Failed to export BibTeX: ${errorMsg}`);
+            }
+
+            // Try exporting keys one by one to identify valid ones
+            const validEntries: string[] = [];
+            const invalidKeys: string[] = [];
+            
+            for (const key of citationKeys) {
+                try {
+                    const entry = await this.exportItems([key], options);
+                    if (entry && entry.trim()) {
+                        validEntries.push(entry);
                     }
-                    return validEntries.join('\n\n');
+                } catch (keyError) {
+                    invalidKeys.push(key);
                 }
             }
             
-            throw new Error(`Failed to export BibTeX: ${errorMsg}`);
+            const cslFormat = CSLBibliography.getTranslatorFormat(options.translator);
+            const bibtex = cslFormat
+                ? CSLBibliography.concat(validEntries, cslFormat)
+                : validEntries.join('\n\n');
+            return { bibtex, missingKeys: invalidKeys };
+        }
+    }
+
+    /**
+     * Export items with a translator. JSON-RPC can't pass export options, so
+     * options other than the translator go through a pull export URL.
+     */
+    private exportItems(citationKeys: string[], options: ExportOptions): Promise<string> {
+        const query = ZoteroAPIClient.buildExportQuery(citationKeys, options);
+        if (!query) {
+            return this.makeRequest<string>('item.export', [citationKeys, options.translator]);
         }
+
+        return new Promise((resolve, reject) => {
+            const req = this.createRequest(`${EXPORT_ITEM_PATH}?${query}`, { method: 'GET' }, (res) => {
+                let data = '';
+                res.setEncoding('utf8');
+
+                res.on('data', (chunk) => {
+                    data += chunk;
+                });
+
+                res.on('end', () => {
+                    if (res.statusCode !== 200) {
+                        reject(new Error(`Zotero API error: ${data.trim() || `status ${res.statusCode}`}`));
+                        return;
+                    }
+                    resolve(data);
+                });
+            });
+
+            req.on('error', (err: NodeJS.ErrnoException) => {
+                reject(this.describeConnectionError(err, 'Network error'));
+            });
+
+            req.on('timeout', () => {
+                req.destroy();
+                reject(new Error('Request timed out. Please ensure Zotero is running.'));
+            });
+
+            req.end();
+        });
+    }
+
+    /**
+     * Query string of a pull export, or null when only the translator is set
+     */
+    static buildExportQuery(citationKeys: string[], options: ExportOptions): string | null {
+        const params = new URLSearchParams();
+        if (options.useJournalAbbreviation !== undefined) {
+            params.set('useJournalAbbreviation', String(options.useJournalAbbreviation));
+        }
+        if (options.exportNotes !== undefined) {
+            params.set('exportNotes', String(options.exportNotes));
+        }
+        if (options.asciiOutput !== undefined && !CSLBibliography.getTranslatorFormat(options.translator)) {
+            params.set(options.translator === 'Better BibLaTeX' ? 'asciiBibLaTeX' : 'asciiBibTeX', String(options.asciiOutput));
+        }
+
+        if ([...params.keys()].length === 0) {
+            return null;
+        }
+
+        const query = new URLSearchParams({
+            citationKeys: citationKeys.join(','),
+            translator: PULL_EXPORT_TRANSLATORS[options.translator]
+        });
+        params.forEach((value, name) => query.set(name, value));
+        return query.toString();
     }
 }
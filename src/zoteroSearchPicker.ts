@@ -0,0 +1,160 @@
+/**
+ * Zotero Search Picker - Search the Zotero library in a VS Code QuickPick,
+ * as an alternative to the external CAYW picker
+ */
+
+import * as vscode from 'vscode';
+import { ZoteroAPIClient } from './zoteroApiClient';
+import { PickedCitation, ZoteroSearchFilters, ZoteroSearchResult } from './types';
+
+/**
+ * Characters typed before the library is searched
+ */
+const MIN_QUERY_LENGTH = 3;
+
+/**
+ * Pause after the last keystroke before searching
+ */
+const SEARCH_DELAY = 250;
+
+interface SearchResultItem extends vscode.QuickPickItem {
+    result: ZoteroSearchResult;
+}
+
+export class ZoteroSearchPicker {
+    constructor(private apiClient: ZoteroAPIClient) {}
+
+    /**
+     * Let the user search and select items; resolves to an empty list when cancelled
+     */
+    pick(): Promise<PickedCitation[]> {
+        const quickPick = vscode.window.createQuickPick<SearchResultItem>();
+        quickPick.canSelectMany = true;
+        quickPick.matchOnDescription = true;
+        quickPick.matchOnDetail = true;
+        quickPick.title = 'Search Zotero';
+        quickPick.placeholder = 'Type to search titles, creators and years. Filter with #tag or @collection (quote names with spaces)';
+
+        let searchTimer: NodeJS.Timeout | undefined;
+        let searchId = 0;
+
+        const search = async (value: string) => {
+            const currentSearch = ++searchId;
+            const { text, ...filters } = ZoteroSearchPicker.parseQuery(value);
+            const hasFilters = (filters.tags?.length ?? 0) > 0 || (filters.collections?.length ?? 0) > 0;
+
+            if (text.length < MIN_QUERY_LENGTH && !hasFilters) {
+                quickPick.items = quickPick.selectedItems;
+                quickPick.busy = false;
+                return;
+            }
+
+            quickPick.busy = true;
+            try {
+                const results = await this.apiClient.searchItems(text, filters);
+                if (currentSearch !== searchId) {
+                    return;
+                }
+                this.showResults(quickPick, results);
+            } catch (error) {
+                if (currentSearch === searchId) {
+                    quickPick.items = quickPick.selectedItems;
+                    quickPick.title = `Search Zotero: ${error instanceof Error ? error.message : error}`;
+                }
+            } finally {
+                if (currentSearch === searchId) {
+                    quickPick.busy = false;
+                }
+            }
+        };
+
+        return new Promise(resolve => {
+            let accepted = false;
+
+            quickPick.onDidChangeValue(value => {
+                quickPick.title = 'Search Zotero';
+                if (searchTimer) {
+                    clearTimeout(searchTimer);
+                }
+                searchTimer = setTimeout(() => search(value), SEARCH_DELAY);
+            });
+
+            quickPick.onDidAccept(() => {
+                // Enter without ticking anything takes the highlighted item
+                const selected = quickPick.selectedItems.length > 0 ? quickPick.selectedItems : quickPick.activeItems;
+                if (selected.length === 0) {
+                    return;
+                }
+                accepted = true;
+                resolve(selected.map(item => ({ key: item.result.key })));
+                quickPick.hide();
+            });
+
+            quickPick.onDidHide(() => {
+                if (searchTimer) {
+                    clearTimeout(searchTimer);
+                }
+                searchId++;
+                quickPick.dispose();
+                if (!accepted) {
+                    resolve([]);
+                }
+            });
+
+            quickPick.show();
+        });
+    }
+
+    /**
+     * Split `#tag`, `@collection` and `#"two words"` filters from the search text
+     */
+    static parseQuery(value: string): { text: string } & ZoteroSearchFilters {
+        const tags: string[] = [];
+        const collections: string[] = [];
+
+        const text = value.replace(/(^|\s)([#@])(?:"([^"]*)"|(\S+))/g, (_match, leading: string, sigil: string, quoted?: string, word?: string) => {
+            const name = (quoted ?? word ?? '').trim();
+            if (name) {
+                (sigil === '#' ? tags : collections).push(name);
+            }
+            return leading;
+        });
+
+        return { text: text.replace(/\s+/g, ' ').trim(), tags, collections };
+    }
+
+    /**
+     * Show results, keeping already ticked items at the top and ticked
+     */
+    private showResults(quickPick: vscode.QuickPick<SearchResultItem>, results: ZoteroSearchResult[]): void {
+        const selected = quickPick.selectedItems;
+        const selectedKeys = new Set(selected.map(item => item.result.key));
+
+        const items = results
+            .filter(result => !selectedKeys.has(result.key))
+            .map(result => ZoteroSearchPicker.toItem(result));
+
+        quickPick.items = [...selected, ...items];
+        quickPick.selectedItems = selected;
+    }
+
+    private static toItem(result: ZoteroSearchResult): SearchResultItem {
+        const creators = result.authors ?? 'Unknown author';
+        const details = [result.title ?? 'Untitled'];
+        if (result.collections && result.collections.length > 0) {
+            details.push(`$(folder) ${result.collections.join(', ')}`);
+        }
+        if (result.tags && result.tags.length > 0) {
+            details.push(`$(tag) ${result.tags.join(', ')}`);
+        }
+
+        return {
+            label: result.year ? `${creators} (${result.year})` : creators,
+            description: result.key,
+            detail: details.join('  '),
+            // Items come from Zotero's own search; don't hide them by VS Code's fuzzy filter
+            alwaysShow: true,
+            result
+        };
+    }
+}